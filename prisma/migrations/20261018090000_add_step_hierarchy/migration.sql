@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Step" ADD COLUMN     "parentStepId" TEXT,
+ADD COLUMN     "stepId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Step_executionId_parentStepId_idx" ON "Step"("executionId", "parentStepId");
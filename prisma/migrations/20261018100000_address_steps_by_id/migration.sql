@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "ReasoningJob_executionId_stepName_idx";
+
+-- DropIndex
+DROP INDEX "ReasoningJob_executionId_stepName_key";
+
+-- AlterTable
+ALTER TABLE "ReasoningJob" ADD COLUMN     "stepId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Step_executionId_stepId_idx" ON "Step"("executionId", "stepId");
+
+-- CreateIndex
+CREATE INDEX "ReasoningJob_executionId_stepId_idx" ON "ReasoningJob"("executionId", "stepId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReasoningJob_executionId_stepId_key" ON "ReasoningJob"("executionId", "stepId");
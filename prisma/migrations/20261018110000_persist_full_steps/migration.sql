@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Step" ADD COLUMN     "endedAt" TIMESTAMP(3),
+ADD COLUMN     "evaluations" JSONB,
+ADD COLUMN     "filtersApplied" JSONB,
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "timestamp" TIMESTAMP(3);
+
+-- Backfill positions from insertion order (cuids are k-sortable)
+UPDATE "Step" AS s
+SET "position" = ordered.rn - 1
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "executionId" ORDER BY "createdAt", "id") AS rn
+  FROM "Step"
+) AS ordered
+WHERE s."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Step_executionId_position_idx" ON "Step"("executionId", "position");
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "Evaluation" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "label" TEXT,
+    "passed" BOOLEAN,
+    "metrics" JSONB,
+    "reasoning" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Evaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EvaluationFilterResult" (
+    "id" TEXT NOT NULL,
+    "evaluationId" TEXT NOT NULL,
+    "filter" TEXT NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "detail" TEXT,
+
+    CONSTRAINT "EvaluationFilterResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Evaluation_candidateId_idx" ON "Evaluation"("candidateId");
+
+-- CreateIndex
+CREATE INDEX "Evaluation_executionId_idx" ON "Evaluation"("executionId");
+
+-- CreateIndex
+CREATE INDEX "Evaluation_stepId_idx" ON "Evaluation"("stepId");
+
+-- CreateIndex
+CREATE INDEX "EvaluationFilterResult_evaluationId_idx" ON "EvaluationFilterResult"("evaluationId");
+
+-- CreateIndex
+CREATE INDEX "EvaluationFilterResult_filter_passed_idx" ON "EvaluationFilterResult"("filter", "passed");
+
+-- AddForeignKey
+ALTER TABLE "Evaluation" ADD CONSTRAINT "Evaluation_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "Execution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evaluation" ADD CONSTRAINT "Evaluation_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "Step"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvaluationFilterResult" ADD CONSTRAINT "EvaluationFilterResult_evaluationId_fkey" FOREIGN KEY ("evaluationId") REFERENCES "Evaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
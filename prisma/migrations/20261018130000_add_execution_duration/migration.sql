@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN     "durationMs" INTEGER;
+
+-- Backfill finished executions
+UPDATE "Execution"
+SET "durationMs" = LEAST(
+  GREATEST(ROUND(EXTRACT(EPOCH FROM ("completedAt" - "startedAt")) * 1000), 0),
+  2147483647
+)::INTEGER
+WHERE "completedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Execution_userId_startedAt_idx" ON "Execution"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "Execution_durationMs_idx" ON "Execution"("durationMs");
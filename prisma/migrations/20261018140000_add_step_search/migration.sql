@@ -0,0 +1,12 @@
+-- AlterTable
+-- Generated column: error (A), reasoning (B), input (C) and output (D).
+-- Only JSON string and number values are indexed, not keys.
+ALTER TABLE "Step" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("error", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("reasoning", '')), 'B') ||
+  setweight(jsonb_to_tsvector('simple', coalesce("input", '{}'::jsonb), '["string", "numeric"]'), 'C') ||
+  setweight(jsonb_to_tsvector('simple', coalesce("output", '{}'::jsonb), '["string", "numeric"]'), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Step_searchVector_idx" ON "Step" USING GIN ("searchVector");
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Project_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Project_userId_idx" ON "Project"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_userId_slug_key" ON "Project"("userId", "slug");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every user gets a "default" project, plus one per projectId their executions already use
+INSERT INTO "Project" ("id", "slug", "name", "userId")
+SELECT gen_random_uuid()::text, p."slug", CASE WHEN p."slug" = 'default' THEN 'Default' ELSE p."slug" END, p."userId"
+FROM (
+    SELECT "id" AS "userId", 'default' AS "slug" FROM "User"
+    UNION
+    SELECT DISTINCT "userId", "projectId" FROM "Execution"
+) p;
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "projectId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ApiKey_userId_projectId_idx" ON "ApiKey"("userId", "projectId");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_userId_projectId_fkey" FOREIGN KEY ("userId", "projectId") REFERENCES "Project"("userId", "slug") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_userId_projectId_fkey" FOREIGN KEY ("userId", "projectId") REFERENCES "Project"("userId", "slug") ON DELETE RESTRICT ON UPDATE CASCADE;
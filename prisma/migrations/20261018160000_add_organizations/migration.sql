@@ -0,0 +1,93 @@
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Membership" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Membership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_slug_key" ON "Organization"("slug");
+
+-- CreateIndex
+CREATE INDEX "Membership_userId_idx" ON "Membership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_organizationId_userId_key" ON "Membership"("organizationId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing user gets a personal organization they own (slug: their user ID)
+INSERT INTO "Organization" ("id", "slug", "name")
+SELECT 'org_' || "id", "id", COALESCE("name", "email") FROM "User";
+
+INSERT INTO "Membership" ("id", "organizationId", "userId", "role")
+SELECT gen_random_uuid()::text, 'org_' || "id", "id", 'owner' FROM "User";
+
+-- Projects, keys and executions move from their user to that user's organization
+ALTER TABLE "Execution" DROP CONSTRAINT "Execution_userId_projectId_fkey";
+ALTER TABLE "ApiKey" DROP CONSTRAINT "ApiKey_userId_projectId_fkey";
+ALTER TABLE "Project" DROP CONSTRAINT "Project_userId_fkey";
+DROP INDEX "Project_userId_slug_key";
+DROP INDEX "Project_userId_idx";
+DROP INDEX "ApiKey_userId_projectId_idx";
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "organizationId" TEXT;
+UPDATE "Project" SET "organizationId" = 'org_' || "userId";
+ALTER TABLE "Project" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "Project" DROP COLUMN "userId";
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "organizationId" TEXT;
+UPDATE "ApiKey" SET "organizationId" = 'org_' || "userId";
+ALTER TABLE "ApiKey" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN "organizationId" TEXT;
+UPDATE "Execution" SET "organizationId" = 'org_' || "userId";
+ALTER TABLE "Execution" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Project_organizationId_idx" ON "Project"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_organizationId_slug_key" ON "Project"("organizationId", "slug");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_organizationId_projectId_idx" ON "ApiKey"("organizationId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "Execution_organizationId_startedAt_idx" ON "Execution"("organizationId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_organizationId_projectId_fkey" FOREIGN KEY ("organizationId", "projectId") REFERENCES "Project"("organizationId", "slug") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_organizationId_projectId_fkey" FOREIGN KEY ("organizationId", "projectId") REFERENCES "Project"("organizationId", "slug") ON DELETE RESTRICT ON UPDATE CASCADE;
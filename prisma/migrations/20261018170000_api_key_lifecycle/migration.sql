@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "scopes" TEXT[] DEFAULT ARRAY['ingest', 'read']::TEXT[],
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "revokedAt" TIMESTAMP(3),
+ADD COLUMN "rotatedFromId" TEXT;
+
+-- Existing keys could already do everything, so they keep full access
+UPDATE "ApiKey" SET "scopes" = ARRAY['admin']::TEXT[];
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "keyHash" TEXT,
+ADD COLUMN "keyPrefix" TEXT;
+
+-- Hash existing keys in place (same SHA-256 hex digest as hashApiKey() in src/lib/auth.ts),
+-- keeping only a display prefix of the plaintext
+UPDATE "ApiKey" SET
+    "keyHash" = encode(sha256(convert_to("key", 'UTF8')), 'hex'),
+    "keyPrefix" = left("key", 13);
+
+ALTER TABLE "ApiKey" ALTER COLUMN "keyHash" SET NOT NULL,
+ALTER COLUMN "keyPrefix" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "ApiKey_key_key";
+
+-- DropIndex
+DROP INDEX "ApiKey_key_idx";
+
+-- AlterTable: the plaintext keys are gone from here on
+ALTER TABLE "ApiKey" DROP COLUMN "key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_keyPrefix_idx" ON "ApiKey"("keyPrefix");
@@ -0,0 +1,71 @@
+/**
+ * Script to gate a deploy on a pipeline version's regression report
+ * Compares two metadata.pipeline versions over the inputs both have run,
+ * prints the report as JSON and exits with status 1 if any threshold is crossed
+ * Usage: npm run regressions:check -- --baseline <pipeline> --candidate <pipeline>
+ *          [--matchKey product_asin] [--maxSelectionChangeRate 0.1] [--maxPassRateShift 0.1]
+ *          [--maxDurationIncrease 0.25] [--minEvaluations 5] [--org <slug>]
+ */
+
+import dotenv from "dotenv"
+import path from "path"
+import { prisma } from "../src/lib/prisma"
+import { getPipelineExecutions } from "../src/lib/storage"
+import { getOrganization } from "../src/lib/organizations"
+import { detectRegressions, parseRegressionQuery } from "../src/lib/regression"
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.join(process.cwd(), ".env.local") })
+
+/** --key value pairs as query-string params, so they parse like the API's */
+function parseArgs(argv: string[]): URLSearchParams {
+  const params = new URLSearchParams()
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--") && i + 1 < argv.length) {
+      params.set(argv[i].slice(2), argv[++i])
+    }
+  }
+  return params
+}
+
+async function main() {
+  const params = parseArgs(process.argv.slice(2))
+  const parsed = parseRegressionQuery(params)
+  if (parsed.error !== undefined) {
+    console.error(`❌ ${parsed.error}`)
+    process.exitCode = 2
+    return
+  }
+
+  // Limit both versions to one organization's executions
+  const slug = params.get("org")
+  const organization = slug ? await getOrganization(slug) : null
+  if (slug && !organization) {
+    console.error(`❌ Unknown organization "${slug}"`)
+    process.exitCode = 2
+    return
+  }
+
+  const [baseline, candidate] = await Promise.all([
+    getPipelineExecutions(parsed.baseline, organization?.id),
+    getPipelineExecutions(parsed.candidate, organization?.id),
+  ])
+
+  const report = detectRegressions(parsed.baseline, baseline, parsed.candidate, candidate, parsed.options)
+  console.log(JSON.stringify(report, null, 2))
+
+  if (!report.passed) {
+    console.error(`\n❌ ${report.regressions.length} regression(s) in ${report.candidate}:`)
+    report.regressions.forEach(r => console.error(`   - ${r.message}`))
+    process.exitCode = 1
+  } else {
+    console.error(`\n✅ No regressions in ${report.candidate} (${report.matched} matched inputs)`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error("Fatal error:", error)
+    process.exitCode = 2
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,51 @@
+/**
+ * Script to replay executions spooled while the X-Ray server was unreachable
+ * Usage: npm run spool:drain -- <spoolDir>
+ *        (or set XRAY_SPOOL_DIR)
+ * Requires XRAY_API_KEY; XRAY_API_URL defaults to http://localhost:3000
+ */
+
+import dotenv from "dotenv"
+import path from "path"
+import { XRayHttpClient } from "../src/xRay/httpClient"
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.join(process.cwd(), ".env.local") })
+
+async function main() {
+  const spoolDir = process.argv[2] || process.env.XRAY_SPOOL_DIR
+  const apiKey = process.env.XRAY_API_KEY
+
+  if (!spoolDir || !apiKey) {
+    console.log("\n📖 Usage:")
+    console.log("  XRAY_API_KEY=\"your-key\" npm run spool:drain -- <spoolDir>")
+    console.log("\nOptional: XRAY_API_URL (default http://localhost:3000), XRAY_SPOOL_DIR instead of <spoolDir>")
+    console.log()
+    process.exit(1)
+  }
+
+  const client = new XRayHttpClient({
+    apiKey,
+    serverUrl: process.env.XRAY_API_URL || "http://localhost:3000",
+    spoolDir
+  })
+
+  console.log(`📦 Draining spool: ${path.resolve(spoolDir)}\n`)
+
+  const { sent, remaining } = await client.drainSpool()
+
+  console.log(`Sent:       ${sent}`)
+  console.log(`Remaining:  ${remaining}`)
+  console.log()
+
+  if (remaining > 0) {
+    console.log("  Server did not accept all executions. Run again once it is reachable.")
+    process.exit(1)
+  }
+  console.log(" Spool drained.")
+}
+
+main().catch(error => {
+  console.error("Fatal error:", error)
+  process.exit(1)
+})
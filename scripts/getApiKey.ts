@@ -2,12 +2,14 @@ import { prisma } from '../src/lib/prisma'
 
 async function main() {
   const apiKey = await prisma.apiKey.findFirst({
-    select: { key: true, user: { select: { email: true } } }
+    select: { keyPrefix: true, name: true, user: { select: { email: true } } }
   })
 
   if (apiKey) {
+    // Only a hash of each key is stored, so the key itself can't be printed
     console.log('Email:', apiKey.user.email)
-    console.log('API Key:', apiKey.key)
+    console.log('API Key:', `${apiKey.keyPrefix}… (${apiKey.name || 'unnamed'})`)
+    console.log('Keys are only shown when created. If you lost it, create a new one at http://localhost:3000/api-key')
   } else {
     console.log('No API keys found. Please visit http://localhost:3000/signup to create one.')
   }
@@ -0,0 +1,28 @@
+/**
+ * Script to rebuild the candidate evaluation index from stored steps
+ * Run once after migrating, for executions saved before evaluations were indexed
+ * Usage: npm run evaluations:reindex
+ */
+
+import dotenv from "dotenv"
+import path from "path"
+import { prisma } from "../src/lib/prisma"
+import { reindexEvaluations } from "../src/lib/storage"
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.join(process.cwd(), ".env.local") })
+
+async function main() {
+  console.log("🔎 Rebuilding evaluation index...\n")
+
+  const indexed = await reindexEvaluations()
+
+  console.log(`\n Indexed ${indexed} evaluations.`)
+}
+
+main()
+  .catch(error => {
+    console.error("Fatal error:", error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
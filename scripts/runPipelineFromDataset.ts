@@ -45,30 +45,27 @@ async function runPipelineForProduct(productData: ProductData, executionId: stri
   console.log(`\n🚀 Running pipeline for: ${productData.reference_product.title}`)
   console.log(`   ASIN: ${productData.reference_product.asin}`)
 
+  const steps = productData.pipeline_steps
+
   // Step 1: Keyword Generation
   console.log("   📝 Step 1: Keyword Generation")
-  xray.startStep("keyword_generation", productData.pipeline_steps.step1_keyword_generation.input)
-  await xray.endStep("keyword_generation", productData.pipeline_steps.step1_keyword_generation.output)
+  xray.step("keyword_generation", steps.step1_keyword_generation.input, () => steps.step1_keyword_generation.output)
 
   // Step 2: Candidate Search
   console.log("   🔍 Step 2: Candidate Search")
-  xray.startStep("candidate_search", productData.pipeline_steps.step2_candidate_search.input)
-  await xray.endStep("candidate_search", productData.pipeline_steps.step2_candidate_search.output)
+  xray.step("candidate_search", steps.step2_candidate_search.input, () => steps.step2_candidate_search.output)
 
   // Step 3: Apply Filters
   console.log("   🎯 Step 3: Apply Filters")
-  xray.startStep("apply_filters", productData.pipeline_steps.step3_apply_filters.input)
-  await xray.endStep("apply_filters", productData.pipeline_steps.step3_apply_filters.output)
+  xray.step("apply_filters", steps.step3_apply_filters.input, () => steps.step3_apply_filters.output)
 
   // Step 4: LLM Relevance Evaluation
   console.log("   🤖 Step 4: LLM Relevance Evaluation")
-  xray.startStep("llm_relevance_evaluation", productData.pipeline_steps.step4_llm_relevance_evaluation.input)
-  await xray.endStep("llm_relevance_evaluation", productData.pipeline_steps.step4_llm_relevance_evaluation.output)
+  xray.step("llm_relevance_evaluation", steps.step4_llm_relevance_evaluation.input, () => steps.step4_llm_relevance_evaluation.output)
 
   // Step 5: Rank and Select
   console.log("   🏆 Step 5: Rank and Select")
-  xray.startStep("rank_and_select", productData.pipeline_steps.step5_rank_and_select.input)
-  await xray.endStep("rank_and_select", productData.pipeline_steps.step5_rank_and_select.output)
+  xray.step("rank_and_select", steps.step5_rank_and_select.input, () => steps.step5_rank_and_select.output)
 
   // End execution
   const execution = xray.end(productData.final_outcome)
@@ -5,7 +5,7 @@
 import dotenv from "dotenv"
 import path from "path"
 import { prisma } from "../src/lib/prisma"
-import { saveExecution } from "../src/lib/storage"
+import { listExecutions, saveExecution, saveExecutions } from "../src/lib/storage"
 
 // Load environment variables
 dotenv.config({ path: path.join(process.cwd(), ".env.local") })
@@ -19,6 +19,13 @@ async function testDatabase() {
     await prisma.$connect()
     console.log("   ✅ Successfully connected to database\n")
 
+    // Executions belong to a user in an organization; use any existing member
+    const membership = await prisma.membership.findFirst()
+    if (!membership) {
+      throw new Error("No users yet - sign up on the dashboard first")
+    }
+    const owner = { userId: membership.userId, organizationId: membership.organizationId }
+
     // Test 2: Create a test execution
     console.log("2. Creating test execution...")
     const testExecution = {
@@ -30,13 +37,17 @@ async function testDatabase() {
       },
       steps: [
         {
+          id: "test-step-1",
           name: "test_step_1",
+          timestamp: new Date().toISOString(),
           input: { query: "test" },
           output: { result: "success" },
           durationMs: 150
         },
         {
+          id: "test-step-2",
           name: "test_step_2",
+          timestamp: new Date().toISOString(),
           input: { data: [1, 2, 3] },
           output: { processed: [2, 4, 6] },
           durationMs: 85
@@ -45,7 +56,7 @@ async function testDatabase() {
       finalOutcome: { success: true }
     }
 
-    await saveExecution(testExecution)
+    await saveExecution(testExecution, owner)
     console.log(`   ✅ Created execution: ${testExecution.executionId}\n`)
 
     // Test 3: Query the execution
@@ -69,7 +80,7 @@ async function testDatabase() {
     const { updateStepReasoning } = await import("../src/lib/storage")
     await updateStepReasoning(
       testExecution.executionId,
-      "test_step_1",
+      "test-step-1",
       "This is a test reasoning string"
     )
     console.log("   ✅ Updated step reasoning\n")
@@ -88,8 +99,31 @@ async function testDatabase() {
       console.log("   ❌ Reasoning not found\n")
     }
 
-    // Test 6: Count all executions
-    console.log("6. Counting total executions...")
+    // Test 6: Excluding a metadata value keeps executions without that key
+    console.log("6. Testing metadata exclusion (as on the dashboard home page)...")
+    const { executions: listed } = await listExecutions(
+      { excludeMetadata: { domain: "movie-recommendation" }, limit: 100 },
+      owner.organizationId
+    )
+    if (listed.some(e => e.executionId === testExecution.executionId)) {
+      console.log("   ✅ Execution without metadata.domain is still listed\n")
+    } else {
+      throw new Error("Execution without metadata.domain was excluded")
+    }
+
+    // Test 7: A key scoped to another project can't overwrite the execution
+    console.log("7. Testing that project-scoped keys can't overwrite other projects' executions...")
+    const scopedOwner = { ...owner, projectId: `not-${retrieved?.projectId}` }
+    const overwrite = await saveExecution(testExecution, scopedOwner).then(() => "saved", (error: Error) => error.message)
+    const [batchResult] = await saveExecutions([testExecution], scopedOwner)
+    if (overwrite.endsWith("already exists") && !batchResult.success) {
+      console.log("   ✅ Single and batch saves were both rejected\n")
+    } else {
+      throw new Error(`Project-scoped save was not rejected (single: ${overwrite}, batch: ${JSON.stringify(batchResult)})`)
+    }
+
+    // Test 8: Count all executions
+    console.log("8. Counting total executions...")
     const count = await prisma.execution.count()
     console.log(`   ✅ Total executions in database: ${count}\n`)
 
@@ -0,0 +1,44 @@
+/**
+ * Test the dashboard's redirect targets (?next=, redirect form fields):
+ * only paths on the dashboard itself are kept
+ */
+
+import { safeRedirectPath } from "../src/lib/redirects"
+
+const cases: [unknown, string][] = [
+  ["/", "/"],
+  ["/execution/abc?entity=x#steps", "/execution/abc?entity=x#steps"],
+  ["/search?q=timeout", "/search?q=timeout"],
+  ["//evil.com", "/"],
+  ["/\\evil.com", "/"],
+  ["/\t/evil.com", "/"],
+  ["/\n/evil.com", "/"],
+  ["https://evil.com", "/"],
+  ["evil.com", "/"],
+  ["", "/"],
+  [undefined, "/"],
+  [null, "/"],
+]
+
+function testRedirects() {
+  console.log("🧪 Testing redirect targets...\n")
+  let failed = 0
+
+  for (const [value, expected] of cases) {
+    const actual = safeRedirectPath(value)
+    if (actual === expected) {
+      console.log(`   ✅ ${JSON.stringify(value)} -> ${actual}`)
+    } else {
+      console.log(`   ❌ ${JSON.stringify(value)} -> ${actual} (expected ${expected})`)
+      failed++
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n❌ ${failed} redirect test(s) failed`)
+    process.exit(1)
+  }
+  console.log("\n✅ All redirect tests passed!")
+}
+
+testRedirects()
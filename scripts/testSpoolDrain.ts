@@ -0,0 +1,61 @@
+/**
+ * Checks which server responses make drainSpool() drop spooled executions.
+ * Runs against a stubbed fetch, no server needed:
+ *   npx tsx scripts/testSpoolDrain.ts
+ */
+
+import { mkdtemp, rm } from "fs/promises"
+import os from "os"
+import path from "path"
+import { XRayHttpClient } from "../src/xRay/httpClient"
+import { ExecutionSpool } from "../src/xRay/spool"
+
+let failures = 0
+
+function check(name: string, ok: boolean, detail: any) {
+  console.log(`${ok ? "✅" : "❌"} ${name}`, ok ? "" : detail)
+  if (!ok) failures++
+}
+
+/** Answer every request with status (and a JSON error body unless it's 200) */
+function respondWith(status: number) {
+  globalThis.fetch = async () => new Response(
+    JSON.stringify(status === 200 ? { success: true } : { error: `HTTP ${status}` }),
+    { status, headers: { "Content-Type": "application/json" } }
+  )
+}
+
+async function withSpool(name: string, status: number, expected: { sent: number; remaining: number }) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "xray-spool-"))
+  try {
+    const spool = new ExecutionSpool(dir)
+    await spool.append({ executionId: "spooled-1" })
+    await spool.append({ executionId: "spooled-2" })
+
+    respondWith(status)
+    const client = new XRayHttpClient({ apiKey: "test", serverUrl: "http://xray.invalid", spoolDir: dir, maxRetries: 0 })
+    const result = await client.drainSpool()
+    const remaining = await spool.count()
+
+    check(name, result.sent === expected.sent && remaining === expected.remaining, { result, remaining })
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+async function main() {
+  await withSpool("401 stops the drain and keeps every entry", 401, { sent: 0, remaining: 2 })
+  await withSpool("403 stops the drain and keeps every entry", 403, { sent: 0, remaining: 2 })
+  await withSpool("404 stops the drain and keeps every entry", 404, { sent: 0, remaining: 2 })
+  await withSpool("422 drops the invalid entries", 422, { sent: 2, remaining: 0 })
+  await withSpool("413 drops the oversized entries", 413, { sent: 2, remaining: 0 })
+  await withSpool("200 delivers every entry", 200, { sent: 2, remaining: 0 })
+
+  if (failures > 0) {
+    console.error(`\n${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log("\nAll spool drain checks passed")
+}
+
+main()
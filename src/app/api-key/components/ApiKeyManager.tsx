@@ -0,0 +1,281 @@
+'use client'
+
+import { useState } from 'react'
+import { ApiKeyInfo, DEFAULT_KEY_SCOPES, DEFAULT_ROTATION_GRACE_HOURS, KEY_SCOPES } from '@/lib/apiKeys'
+import { CopyButton } from './CopyButton'
+
+type KeyRow = ApiKeyInfo & { current: boolean }
+type Organization = { slug: string; name: string; role: string; current: boolean }
+
+const inputClass = 'w-full px-3 py-2 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-100 text-red-700',
+}
+
+function formatDate(value?: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : '-'
+}
+
+/**
+ * Create, rotate and revoke API keys, authenticated with an existing admin key.
+ * The admin key only lives in this component's state.
+ */
+export function ApiKeyManager() {
+  const [adminKey, setAdminKey] = useState('')
+  const [keys, setKeys] = useState<KeyRow[] | null>(null)
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [graceHours, setGraceHours] = useState(String(DEFAULT_ROTATION_GRACE_HOURS))
+  const [newKey, setNewKey] = useState<{ apiKey: string; label: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  async function call(path: string, init: RequestInit = {}, key = adminKey) {
+    const response = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': key.trim() },
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed (${response.status})`)
+    }
+    return data
+  }
+
+  async function run(action: () => Promise<void>) {
+    setLoading(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const refresh = () => run(async () => {
+    const [keyData, orgData] = await Promise.all([call('/api/keys'), call('/api/orgs')])
+    setKeys(keyData.keys)
+    setOrganizations(orgData.organizations)
+  })
+
+  function handleCreate(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const form = new FormData(e.currentTarget)
+    const scopes = KEY_SCOPES.filter(scope => form.get(`scope-${scope}`))
+
+    run(async () => {
+      const data = await call('/api/keys', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: form.get('name'),
+          scopes,
+          expiresInDays: form.get('expiresInDays'),
+          organization: form.get('organization'),
+          projectId: form.get('projectId'),
+        }),
+      })
+      setNewKey({ apiKey: data.apiKey, label: data.key.name || 'New key' })
+      const keyData = await call('/api/keys')
+      setKeys(keyData.keys)
+    })
+  }
+
+  const rotate = (key: KeyRow) => run(async () => {
+    const data = await call(`/api/keys/${key.id}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ gracePeriodHours: graceHours }),
+    })
+    setNewKey({ apiKey: data.apiKey, label: `${key.name || key.preview} (rotated)` })
+    // Switch to the new key when rotating the one in use
+    const nextAdminKey = key.current ? data.apiKey : adminKey
+    setAdminKey(nextAdminKey)
+    const keyData = await call('/api/keys', {}, nextAdminKey)
+    setKeys(keyData.keys)
+  })
+
+  const revoke = (key: KeyRow) => {
+    if (!window.confirm(`Revoke "${key.name || key.preview}"? Clients using it will stop working immediately.`)) return
+    run(async () => {
+      await call(`/api/keys/${key.id}`, { method: 'DELETE' })
+      if (key.current) {
+        setKeys(null)
+        setAdminKey('')
+        return
+      }
+      const keyData = await call('/api/keys')
+      setKeys(keyData.keys)
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-2">Admin API key</label>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={adminKey}
+            onChange={e => setAdminKey(e.target.value)}
+            placeholder="xray_..."
+            className={`${inputClass} font-mono`}
+            disabled={loading}
+          />
+          <button
+            onClick={refresh}
+            disabled={loading || !adminKey.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {keys ? 'Refresh' : 'Manage Keys'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Any key with the admin scope, such as the one shown when you signed up. It is only used from this page.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">{error}</div>
+      )}
+
+      {newKey && (
+        <div className="bg-green-50 border border-green-200 p-4 rounded">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium">{newKey.label}</div>
+            <CopyButton text={newKey.apiKey} />
+          </div>
+          <code className="text-sm bg-white px-3 py-2 rounded border block break-all font-mono">{newKey.apiKey}</code>
+          <div className="text-xs text-gray-600 mt-2">⚠️ Save this key - it won&apos;t be shown again</div>
+        </div>
+      )}
+
+      {keys && (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="font-medium">Your Keys</h2>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                Rotation grace period
+                <input
+                  type="number"
+                  min={0}
+                  value={graceHours}
+                  onChange={e => setGraceHours(e.target.value)}
+                  className="w-20 px-2 py-1 border rounded text-sm"
+                />
+                hours
+              </label>
+            </div>
+            <div className="overflow-x-auto border rounded">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600 uppercase">
+                  <tr>
+                    <th className="px-3 py-2">Key</th>
+                    <th className="px-3 py-2">Scope</th>
+                    <th className="px-3 py-2">Status</th>
+                    <th className="px-3 py-2">Expires</th>
+                    <th className="px-3 py-2">Last Used</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {keys.map(key => (
+                    <tr key={key.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">
+                          {key.name || 'Unnamed key'}
+                          {key.current && <span className="ml-2 text-xs text-blue-600">(this key)</span>}
+                        </div>
+                        <div className="font-mono text-xs text-gray-500">{key.preview}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        <div>{key.scopes.join(', ')}</div>
+                        <div className="text-xs text-gray-500">
+                          {key.organization}{key.projectId && ` / ${key.projectId}`}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[key.status]}`}>{key.status}</span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{formatDate(key.expiresAt)}</td>
+                      <td className="px-3 py-2 text-gray-600">{formatDate(key.lastUsedAt)}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {key.status === 'active' && (
+                          <>
+                            <button
+                              onClick={() => rotate(key)}
+                              disabled={loading}
+                              className="px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded"
+                            >
+                              Rotate
+                            </button>
+                            <button
+                              onClick={() => revoke(key)}
+                              disabled={loading}
+                              className="px-2 py-1 text-xs text-red-700 hover:bg-red-50 rounded"
+                            >
+                              Revoke
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <form onSubmit={handleCreate} className="border rounded p-4 space-y-4">
+            <h2 className="font-medium">Create a Key</h2>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                <input name="name" placeholder="CI ingestion" className={inputClass} disabled={loading} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Expires in (days)</label>
+                <input name="expiresInDays" type="number" min={1} placeholder="Never" className={inputClass} disabled={loading} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Organization</label>
+                <select
+                  name="organization"
+                  defaultValue={organizations.find(o => o.current)?.slug}
+                  className={inputClass}
+                  disabled={loading}
+                >
+                  {organizations.map(o => (
+                    <option key={o.slug} value={o.slug}>{o.name} ({o.role})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Project</label>
+                <input name="projectId" placeholder="Any project" className={inputClass} disabled={loading} />
+              </div>
+            </div>
+            <div className="flex items-center gap-4 text-sm">
+              {KEY_SCOPES.map(scope => (
+                <label key={scope} className="flex items-center gap-1">
+                  <input type="checkbox" name={`scope-${scope}`} defaultChecked={DEFAULT_KEY_SCOPES.includes(scope)} disabled={loading} />
+                  {scope}
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+            >
+              Create Key
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  )
+}
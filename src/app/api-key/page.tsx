@@ -1,5 +1,6 @@
 import Link from 'next/link'
 import { CopyButton } from './components/CopyButton'
+import { ApiKeyManager } from './components/ApiKeyManager'
 
 export default async function ApiKeyPage({
   searchParams
@@ -74,25 +75,28 @@ await createXRayClient().saveExecution(execution)`}
     )
   }
 
-  // No authentication - show message to create account or contact admin
+  // No key to show - manage existing keys with an admin key
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50">
-      <div className="max-w-md w-full bg-white p-8 rounded-lg shadow">
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12">
+      <div className="max-w-4xl w-full bg-white p-8 rounded-lg shadow">
         <h1 className="text-2xl font-bold mb-4">API Keys</h1>
 
         <div className="bg-yellow-50 border border-yellow-200 p-4 rounded mb-6">
           <div className="text-sm font-medium mb-2">🔒 Secure Access</div>
           <p className="text-sm text-gray-700">
-            For security reasons, API keys are only shown once during account creation.
+            For security reasons, API keys are only shown once, when they are created.
+            Rotate a key to replace it, or revoke it if it leaked.
           </p>
         </div>
 
-        <div className="space-y-4">
+        <ApiKeyManager />
+
+        <div className="mt-8 pt-6 border-t space-y-4">
           <div>
-            <h2 className="font-medium mb-2">Don't have an account?</h2>
+            <h2 className="font-medium mb-2">Don&apos;t have an account?</h2>
             <Link
               href="/signup"
-              className="inline-block w-full text-center bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700"
+              className="inline-block bg-blue-600 text-white px-6 py-2 rounded hover:bg-blue-700"
             >
               Create Account
             </Link>
@@ -101,13 +105,11 @@ await createXRayClient().saveExecution(execution)`}
           <div>
             <h2 className="font-medium mb-2">Lost your API key?</h2>
             <p className="text-sm text-gray-600 mb-2">
-              API keys are shown only once during account creation for security.
-              If you've lost your key, please contact support or create a new account.
+              Keys can&apos;t be recovered. Create a new one above with another admin key, or ask an
+              admin of your organization to revoke the lost key.
             </p>
           </div>
-        </div>
 
-        <div className="mt-6 pt-6 border-t">
           <Link href="/" className="text-blue-600 hover:underline text-sm">
             ← Back to Dashboard
           </Link>
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { deleteSession, SESSION_COOKIE } from '@/lib/sessions'
+
+/**
+ * Sign out of the dashboard: ends the session and clears its cookie
+ */
+export async function POST(request: Request) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value
+
+  try {
+    if (token) {
+      await deleteSession(token)
+    }
+  } catch (error: any) {
+    console.error('[logout] Error:', error)
+  }
+
+  const response = NextResponse.redirect(new URL('/login', request.url), 303)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { sendLoginLink } from '@/lib/sessions'
+import { safeRedirectPath } from '@/lib/redirects'
+
+/**
+ * Request a sign-in link. Form fields: email and next (the page to open
+ * after signing in). Always redirects to /login?sent=1, whether or not the
+ * email has an account.
+ *
+ * Links point at XRAY_DASHBOARD_URL. Without it no link is sent: the
+ * request's own origin comes from its Host header, which the client controls.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    const params = new URLSearchParams({ error: 'Could not send the sign-in link, please try again' })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+  const email = String(form.get('email') ?? '').trim()
+  const next = safeRedirectPath(form.get('next'))
+
+  if (!email) {
+    const params = new URLSearchParams({ error: 'Email is required', next })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+
+  const dashboardUrl = process.env.XRAY_DASHBOARD_URL
+  if (!dashboardUrl) {
+    console.error('[magic-link] XRAY_DASHBOARD_URL is not set, not sending a sign-in link')
+    const params = new URLSearchParams({ error: 'Email sign-in is not configured on this server', next })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+
+  try {
+    await sendLoginLink(email, dashboardUrl, next)
+  } catch (error: any) {
+    console.error('[magic-link] Error:', error)
+    const params = new URLSearchParams({ error: 'Could not send the sign-in link, please try again', next })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+
+  const params = new URLSearchParams({ sent: '1', next })
+  return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+}
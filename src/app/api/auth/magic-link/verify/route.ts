@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { setSessionCookie, signInWithLoginToken } from '@/lib/sessions'
+import { safeRedirectPath } from '@/lib/redirects'
+
+/**
+ * Use a sign-in link, posted from /login/confirm. Form fields: token and
+ * next. Starts a session and redirects to next, or back to /login if the
+ * link is used or expired.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    const params = new URLSearchParams({ error: 'Sign-in failed, please try again' })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+  const token = String(form.get('token') ?? '')
+  const next = safeRedirectPath(form.get('next'))
+
+  try {
+    const session = token ? await signInWithLoginToken(token) : null
+    if (!session) {
+      const params = new URLSearchParams({ error: 'This sign-in link is invalid, used or expired', next })
+      return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+    }
+
+    const response = NextResponse.redirect(new URL(next, request.url), 303)
+    setSessionCookie(response, session.token, session.expiresAt)
+    return response
+  } catch (error: any) {
+    console.error('[magic-link] Error:', error)
+    const params = new URLSearchParams({ error: 'Sign-in failed, please try again', next })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+}
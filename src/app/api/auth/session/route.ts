@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { authenticateApiKey } from '@/lib/auth'
+import { hasScope } from '@/lib/apiKeys'
+import { createSession, setSessionCookie } from '@/lib/sessions'
+import { safeRedirectPath } from '@/lib/redirects'
+
+/**
+ * Dashboard sign-in. Form fields: apiKey (any active key with the read
+ * scope) and next (the page to return to). Sets the session cookie and
+ * redirects to next, or back to /login with an error.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    const params = new URLSearchParams({ error: 'Sign-in failed, please try again' })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+  const apiKey = String(form.get('apiKey') ?? '').trim()
+  const next = safeRedirectPath(form.get('next'))
+
+  const fail = (error: string) => {
+    const params = new URLSearchParams({ error, next })
+    return NextResponse.redirect(new URL(`/login?${params}`, request.url), 303)
+  }
+
+  try {
+    const auth = apiKey ? await authenticateApiKey(apiKey) : null
+    if (!auth) {
+      return fail('Invalid, expired or revoked API key')
+    }
+    if (!hasScope(auth.scopes, 'read')) {
+      return fail('This API key does not have the read scope')
+    }
+
+    const { token, expiresAt } = await createSession(auth.userId, auth.organizationId)
+
+    const response = NextResponse.redirect(new URL(next, request.url), 303)
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error: any) {
+    console.error('[login] Error:', error)
+    return fail('Sign-in failed, please try again')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getCandidateRejections } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Why was a candidate rejected? Returns how often it was evaluated, passed and
+ * rejected across all of your executions, which filters eliminated it, and
+ * its most recent evaluations.
+ */
+export async function GET(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+    const summary = await getCandidateRejections(id, auth.organizationId, auth.projectId)
+
+    if (summary.evaluated === 0) {
+      return NextResponse.json(
+        { error: 'Candidate not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    console.error('[candidates] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load candidate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { getExecutionById } from '@/lib/storage'
+import { compareExecutions } from '@/lib/compare'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * Compare two of your executions step by step.
+ * Query params: a, b (execution IDs; a is treated as the baseline).
+ * Returns the aligned steps with input/output diffs, duration and
+ * candidate count deltas, selection changes and both reasoning strings.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const params = new URL(request.url).searchParams
+    const a = params.get('a')?.trim()
+    const b = params.get('b')?.trim()
+
+    if (!a || !b) {
+      return NextResponse.json(
+        { error: 'a and b (execution IDs) are required' },
+        { status: 400 }
+      )
+    }
+
+    // Pass organizationId for authorization check
+    const [executionA, executionB] = await Promise.all([
+      getExecutionById(a, auth.organizationId, auth.projectId),
+      getExecutionById(b, auth.organizationId, auth.projectId),
+    ])
+
+    const missing = [!executionA && a, !executionB && b].filter(Boolean)
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Execution not found: ${missing.join(', ')}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(compareExecutions(executionA!, executionB!))
+  } catch (error: any) {
+    console.error('[compare] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compare executions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { findEvaluations } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * Search candidate evaluations across your executions.
+ * Query params (all optional): candidateId, executionId, stepName,
+ * passed (true|false), failedFilter (e.g. min_rating), limit (max 1000).
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const params = new URL(request.url).searchParams
+
+    const passed = params.get('passed')
+    if (passed !== null && passed !== 'true' && passed !== 'false') {
+      return NextResponse.json(
+        { error: 'passed must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    const limit = params.get('limit')
+    if (limit !== null && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const evaluations = await findEvaluations({
+      candidateId: params.get('candidateId') || undefined,
+      executionId: params.get('executionId') || undefined,
+      stepName: params.get('stepName') || undefined,
+      failedFilter: params.get('failedFilter') || undefined,
+      passed: passed === null ? undefined : passed === 'true',
+      limit: limit === null ? undefined : Number(limit),
+    }, auth.organizationId, auth.projectId)
+
+    return NextResponse.json({ evaluations })
+  } catch (error: any) {
+    console.error('[evaluations] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load evaluations' },
+      { status: 500 }
+    )
+  }
+}
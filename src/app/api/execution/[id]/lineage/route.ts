@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getExecutionById } from "@/lib/storage"
+import { traceEntity } from "@/lib/lineage"
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from "@/lib/authMiddleware"
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Trace one entity (e.g. an ASIN) through an execution's steps.
+ * Query: ?entity=<id>. Returns where it first appeared, which steps kept it,
+ * and where and why it was dropped.
+ */
+export async function GET(request: Request, { params }: Props) {
+  // Extract and validate the API key
+  const auth = await getAuthFromRequest(request)
+
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+    const entity = new URL(request.url).searchParams.get("entity")?.trim()
+
+    if (!entity) {
+      return NextResponse.json(
+        { error: "entity query parameter is required" },
+        { status: 400 }
+      )
+    }
+
+    // Pass organizationId for authorization check
+    const execution = await getExecutionById(id, auth.organizationId, auth.projectId)
+
+    if (!execution) {
+      // Could mean not found OR unauthorized - storage returns undefined for both
+      return NextResponse.json(
+        { error: "Execution not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      executionId: execution.executionId,
+      ...traceEntity(execution, entity)
+    })
+  } catch (error: any) {
+    console.error('[execution-lineage] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to trace entity' },
+      { status: 500 }
+    )
+  }
+}
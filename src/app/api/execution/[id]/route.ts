@@ -1,24 +1,28 @@
 import { NextResponse } from "next/server"
 import { getExecutionById } from "@/lib/storage"
-import { getUserIdFromRequest, unauthorizedResponse } from "@/lib/authMiddleware"
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from "@/lib/authMiddleware"
 
 type Props = {
   params: Promise<{ id: string }>
 }
 
 export async function GET(request: Request, { params }: Props) {
-  // Extract and validate userId from API key
-  const userId = await getUserIdFromRequest(request)
+  // Extract and validate the API key
+  const auth = await getAuthFromRequest(request)
 
-  if (!userId) {
+  if (!auth) {
     return unauthorizedResponse()
   }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
 
   try {
     const { id } = await params
 
-    // Pass userId for authorization check
-    const execution = await getExecutionById(id, userId)
+    // Pass organizationId for authorization check
+    const execution = await getExecutionById(id, auth.organizationId, auth.projectId)
 
     if (!execution) {
       // Could mean not found OR unauthorized - storage returns undefined for both
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { listExecutions } from '@/lib/storage'
+import { parseExecutionListQuery } from '@/lib/executionQuery'
+import { forbiddenResponse, getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+import { readProjectScope } from '@/lib/projects'
+
+/**
+ * List your executions, newest first, one page at a time.
+ * Filters: from, to, projectId, metadata.<key>=<value>, hasError, stepName,
+ * minDurationMs, maxDurationMs. Sorting: sort=startedAt|durationMs,
+ * order=asc|desc. Paging: limit (max 100) and cursor (the nextCursor of the
+ * previous response). Project-scoped keys only list their project.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { query, error } = parseExecutionListQuery(new URL(request.url).searchParams)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const scope = readProjectScope(auth, query.projectId)
+    if (scope.error) {
+      return forbiddenResponse(scope.error)
+    }
+
+    const page = await listExecutions({ ...query, projectId: scope.projectId }, auth.organizationId)
+
+    return NextResponse.json(page)
+  } catch (error: any) {
+    console.error('[executions] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list executions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,18 +1,26 @@
 import { NextResponse } from "next/server"
 import { getExecutionById } from "@/lib/storage"
+import { getCurrentSession } from "@/lib/sessions"
+import { unauthorizedResponse } from "@/lib/authMiddleware"
 
 type Props = {
   params: Promise<{ id: string }>
 }
 
 /**
- * Internal API endpoint for dashboard to fetch execution without authentication
- * This is used by the frontend polling mechanism to check for reasoning updates
+ * Internal API endpoint for dashboard to fetch an execution with the dashboard
+ * session (not an API key). Only executions of the session's organization are
+ * returned. This is used by the frontend polling mechanism to check for reasoning updates
  */
 export async function GET(request: Request, { params }: Props) {
   try {
+    const session = await getCurrentSession()
+    if (!session) {
+      return unauthorizedResponse('Not signed in')
+    }
+
     const { id } = await params
-    const execution = await getExecutionById(id)
+    const execution = await getExecutionById(id, session.organizationId)
 
     if (!execution) {
       return NextResponse.json(
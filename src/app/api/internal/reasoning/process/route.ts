@@ -1,9 +1,14 @@
 import { NextResponse } from "next/server"
 import { ReasoningQueue } from "@/xRay/reasoningQueue"
 import { getExecutionById } from "@/lib/storage"
+import { getCurrentSession } from "@/lib/sessions"
+import { hasRole } from "@/lib/organizations"
+import { roleRequiredResponse, unauthorizedResponse } from "@/lib/authMiddleware"
 
 /**
- * Internal API endpoint for dashboard to trigger reasoning without authentication
+ * Internal API endpoint for dashboard to trigger reasoning with the dashboard
+ * session. Requires the admin role in the session's organization, which must
+ * own the execution.
  * This is used by ExecutionReasoningTrigger component when user views an execution
  *
  * SECURITY: Only uses server's OpenAI key. Developers should generate reasoning
@@ -11,6 +16,14 @@ import { getExecutionById } from "@/lib/storage"
  */
 export async function POST(request: Request) {
   try {
+    const session = await getCurrentSession()
+    if (!session) {
+      return unauthorizedResponse('Not signed in')
+    }
+    if (!hasRole(session.role, 'admin')) {
+      return roleRequiredResponse('admin')
+    }
+
     const { executionId } = await request.json()
 
     if (!executionId) {
@@ -21,7 +34,7 @@ export async function POST(request: Request) {
     }
 
     // Verify execution exists
-    const execution = await getExecutionById(executionId)
+    const execution = await getExecutionById(executionId, session.organizationId)
 
     if (!execution) {
       return NextResponse.json(
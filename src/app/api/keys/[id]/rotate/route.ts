@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { getApiKeyById, rotateApiKey } from '@/lib/auth'
+import { apiKeyStatus, describeApiKey, parseGracePeriodHours } from '@/lib/apiKeys'
+import { checkAccess, getAuthFromRequest, unauthorizedResponse } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Rotate one of your API keys. Body: { gracePeriodHours? } (default 24)
+ * Returns a new key with the same name, organization, project, scopes and
+ * lifetime - store it, it is only shown once. The old key keeps working
+ * until the grace period ends, then expires.
+ */
+export async function POST(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+    const { gracePeriodHours } = await request.json().catch(() => ({}))
+
+    const grace = parseGracePeriodHours(gracePeriodHours)
+    if (grace.error) {
+      return NextResponse.json(
+        { error: grace.error },
+        { status: 400 }
+      )
+    }
+
+    // Only the key's own user can rotate it: they receive the new secret
+    const key = await getApiKeyById(id)
+    if (!key || key.userId !== auth.userId) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+    if (apiKeyStatus(key) !== 'active') {
+      return NextResponse.json(
+        { error: `API key is ${apiKeyStatus(key)}` },
+        { status: 409 }
+      )
+    }
+
+    const { apiKey, record, previous } = await rotateApiKey(id, grace.hours! * 60 * 60 * 1000)
+
+    return NextResponse.json({
+      success: true,
+      key: describeApiKey(record),
+      previous: describeApiKey(previous),
+      apiKey
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[keys] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to rotate API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getApiKeyById, revokeApiKey } from '@/lib/auth'
+import { describeApiKey } from '@/lib/apiKeys'
+import { getMemberRole, hasRole } from '@/lib/organizations'
+import { checkAccess, getAuthFromRequest, unauthorizedResponse } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Revoke an API key; it stops working immediately.
+ * You can revoke your own keys, and admins can revoke any key in their
+ * organization (e.g. a teammate's leaked key).
+ */
+export async function DELETE(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+
+    const key = await getApiKeyById(id)
+    const role = key && key.userId !== auth.userId ? await getMemberRole(key.organizationId, auth.userId) : null
+    if (!key || (key.userId !== auth.userId && !(role && hasRole(role, 'admin')))) {
+      // Could mean not found OR unauthorized
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    const record = key.revokedAt ? key : await revokeApiKey(id)
+
+    return NextResponse.json({
+      success: true,
+      key: describeApiKey(record)
+    })
+  } catch (error: any) {
+    console.error('[keys] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { createApiKey, getUserApiKeys } from '@/lib/auth'
+import { describeApiKey, parseApiKeyOptions } from '@/lib/apiKeys'
+import { getMemberRole, getOrganization } from '@/lib/organizations'
+import { getProject } from '@/lib/projects'
+import { checkAccess, forbiddenResponse, getAuthFromRequest, unauthorizedResponse } from '@/lib/authMiddleware'
+
+/**
+ * List your API keys in every organization, newest first.
+ * Secrets are never returned, only a short preview.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const keys = await getUserApiKeys(auth.userId)
+    const now = new Date()
+
+    return NextResponse.json({
+      keys: keys.map(key => ({ ...describeApiKey(key, now), current: key.id === auth.apiKeyId }))
+    })
+  } catch (error: any) {
+    console.error('[keys] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create an API key.
+ * Body: { name?, scopes?, expiresAt? | expiresInDays?, organization?, projectId? }
+ *   scopes         ingest | read | admin (default: ingest, read)
+ *   organization   slug of an organization you belong to (default: this key's)
+ *   projectId      scope the key to one of its projects
+ * The key is returned once - store it.
+ */
+export async function POST(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot create keys')
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    const parsed = parseApiKeyOptions(body)
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    // Keys can be minted for any organization the user belongs to
+    let organizationId = auth.organizationId
+    if (typeof body.organization === 'string' && body.organization) {
+      const organization = await getOrganization(body.organization)
+      if (!organization || !(await getMemberRole(organization.id, auth.userId))) {
+        return NextResponse.json(
+          { error: 'Organization not found' },
+          { status: 404 }
+        )
+      }
+      organizationId = organization.id
+    }
+
+    let projectId: string | undefined
+    if (typeof body.projectId === 'string' && body.projectId) {
+      const project = await getProject(organizationId, body.projectId)
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+      projectId = project.slug
+    }
+
+    const { apiKey, record } = await createApiKey(auth.userId, organizationId, { ...parsed.options, projectId })
+
+    return NextResponse.json({
+      success: true,
+      key: describeApiKey(record),
+      apiKey
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[keys] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server'
+import { saveExecutions } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+import { IngestProject, resolveIngestProject } from '@/lib/projects'
+import { ValidationError, validateExecution } from '@/xRay/schema'
+
+const MAX_BATCH_SIZE = 1000
+
+interface BatchItemResult {
+  index: number
+  executionId?: string
+  success: boolean
+  error?: string
+  details?: ValidationError[]
+}
+
+/**
+ * Ingest many executions in one request.
+ * Body: a JSON array of executions, or NDJSON (one execution per line,
+ * Content-Type: application/x-ndjson). Each execution is validated and saved
+ * independently; the response has one result per item, in input order.
+ */
+export async function POST(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const body = await request.text()
+    const contentType = request.headers.get('content-type') || ''
+
+    let items: { value?: any; parseError?: string }[]
+    if (contentType.includes('ndjson')) {
+      items = body
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .map(line => {
+          try {
+            return { value: JSON.parse(line) }
+          } catch {
+            return { parseError: 'Invalid JSON' }
+          }
+        })
+    } else {
+      let parsed: any
+      try {
+        parsed = JSON.parse(body)
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        )
+      }
+      if (!Array.isArray(parsed)) {
+        return NextResponse.json(
+          { error: 'Expected an array of executions (or NDJSON with Content-Type: application/x-ndjson)' },
+          { status: 400 }
+        )
+      }
+      items = parsed.map((value: any) => ({ value }))
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'Batch is empty' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Batch too large (max ${MAX_BATCH_SIZE} executions)` },
+        { status: 413 }
+      )
+    }
+
+    // Validate each item; valid ones are saved together below
+    const results: BatchItemResult[] = []
+    const valid: { index: number; execution: any; projectId: string }[] = []
+    const seen = new Set<string>()
+    // Each distinct metadata.projectId is resolved once
+    const projects = new Map<string, Promise<IngestProject>>()
+
+    for (const [index, item] of items.entries()) {
+      const execution = item.value
+      if (item.parseError) {
+        results[index] = { index, success: false, error: item.parseError }
+        continue
+      }
+
+      const { valid: isValid, errors } = validateExecution(execution)
+      if (!isValid) {
+        const executionId = typeof execution?.executionId === 'string' ? execution.executionId : undefined
+        results[index] = { index, executionId, success: false, error: 'Invalid execution data', details: errors }
+      } else if (seen.has(execution.executionId)) {
+        results[index] = { index, executionId: execution.executionId, success: false, error: 'Duplicate executionId in batch' }
+      } else {
+        // Project-scoped keys tag every execution with their project
+        const requested = execution.metadata?.projectId ?? ''
+        if (!projects.has(requested)) {
+          projects.set(requested, resolveIngestProject(auth, requested))
+        }
+        const project = await projects.get(requested)!
+        if (project.error) {
+          results[index] = { index, executionId: execution.executionId, success: false, error: project.error }
+          continue
+        }
+
+        seen.add(execution.executionId)
+        valid.push({ index, execution, projectId: project.projectId })
+      }
+    }
+
+    // Save to database
+    if (valid.length > 0) {
+      const saved = await saveExecutions(
+        valid.map(v => v.execution),
+        auth,
+        valid.map(v => v.projectId)
+      )
+      saved.forEach((result, i) => {
+        const { index } = valid[i]
+        results[index] = { index, ...result }
+      })
+    }
+
+    const succeeded = results.filter(r => r.success).length
+
+    return NextResponse.json({
+      success: succeeded === results.length,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    })
+  } catch (error: any) {
+    console.error('[logs/batch] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save executions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,28 +1,50 @@
 import { NextResponse } from 'next/server'
 import { saveExecution } from '@/lib/storage'
-import { getUserIdFromRequest, unauthorizedResponse } from '@/lib/authMiddleware'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+import { resolveIngestProject } from '@/lib/projects'
+import { validateExecution } from '@/xRay/schema'
 
 export async function POST(request: Request) {
   // Auth
-  const userId = await getUserIdFromRequest(request)
-  if (!userId) {
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
     return unauthorizedResponse()
   }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
 
   try {
     // Parse execution from request body
-    const execution = await request.json()
+    const execution = await request.json().catch(() => undefined)
+    if (execution === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
 
-    // Validate required fields
-    if (!execution.executionId || !execution.steps || execution.steps.length === 0) {
+    // Validate against the execution schema; details lists every bad field
+    const { valid, errors } = validateExecution(execution)
+    if (!valid) {
       return NextResponse.json(
-        { error: 'Invalid execution data' },
+        { error: 'Invalid execution data', details: errors },
         { status: 400 }
       )
     }
 
+    // Project-scoped keys tag the execution with their project
+    const project = await resolveIngestProject(auth, execution.metadata?.projectId)
+    if (project.error) {
+      return NextResponse.json(
+        { error: project.error },
+        { status: project.status }
+      )
+    }
+
     // Save to database
-    await saveExecution(execution, userId)
+    await saveExecution(execution, auth, project.projectId)
 
     return NextResponse.json({
       success: true,
@@ -30,6 +52,15 @@ export async function POST(request: Request) {
     })
   } catch (error: any) {
     console.error('[logs] Error:', error)
+
+    // The executionId is taken by another organization
+    if (error.message?.endsWith('already exists')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to save execution' },
       { status: 500 }
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { closeExecution } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Finish an execution opened via POST /api/logs/stream.
+ * Body: { endedAt?, finalOutcome? }
+ */
+export async function POST(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+    const { endedAt, finalOutcome } = await request.json().catch(() => ({}))
+
+    const closed = await closeExecution(id, { endedAt, finalOutcome }, auth.organizationId, auth.projectId)
+    if (!closed) {
+      // Could mean not found OR unauthorized
+      return NextResponse.json(
+        { error: 'Execution not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      executionId: id
+    })
+  } catch (error: any) {
+    console.error('[logs/stream/end] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to close execution' },
+      { status: 500 }
+    )
+  }
+}
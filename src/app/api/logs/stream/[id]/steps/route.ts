@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { appendSteps } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+import { validateStep } from '@/xRay/schema'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Append finished steps to an open execution.
+ * Body: { steps: Step[] }. Steps already appended (same step ID) are ignored.
+ */
+export async function POST(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+    const { steps } = body ?? {}
+
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid step data', details: [{ path: 'steps', message: 'must be a non-empty array' }] },
+        { status: 400 }
+      )
+    }
+
+    const errors = steps.flatMap((step: any, i: number) => validateStep(step, `steps[${i}]`).errors)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid step data', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const appended = await appendSteps(id, steps, auth.organizationId, auth.projectId)
+    if (appended === null) {
+      // Could mean not found OR unauthorized
+      return NextResponse.json(
+        { error: 'Execution not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      executionId: id,
+      appended
+    })
+  } catch (error: any) {
+    console.error('[logs/stream/steps] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to append steps' },
+      { status: 500 }
+    )
+  }
+}
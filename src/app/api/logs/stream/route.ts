@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { openExecution } from '@/lib/storage'
+import { getAuthFromRequest, unauthorizedResponse, forbiddenResponse, checkAccess } from '@/lib/authMiddleware'
+import { resolveIngestProject } from '@/lib/projects'
+import { validateExecution } from '@/xRay/schema'
+
+/**
+ * Open an execution for incremental ingestion.
+ * Steps are then appended via POST /api/logs/stream/[id]/steps and the
+ * execution is finished via POST /api/logs/stream/[id]/end. Until then the
+ * dashboard shows it as running.
+ */
+export async function POST(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+    const { schemaVersion, executionId, startedAt, metadata } = body ?? {}
+
+    // Steps arrive later, so validate the header fields only
+    const { valid, errors } = validateExecution(
+      { schemaVersion, executionId, startedAt, metadata, steps: [] },
+      { requireSteps: false }
+    )
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Invalid execution data', details: errors },
+        { status: 400 }
+      )
+    }
+
+    // Project-scoped keys tag the execution with their project
+    const project = await resolveIngestProject(auth, metadata?.projectId)
+    if (project.error) {
+      return NextResponse.json(
+        { error: project.error },
+        { status: project.status }
+      )
+    }
+
+    const opened = await openExecution({ executionId, startedAt, metadata }, auth, project.projectId)
+    if (!opened) {
+      return forbiddenResponse()
+    }
+
+    return NextResponse.json({
+      success: true,
+      executionId
+    })
+  } catch (error: any) {
+    console.error('[logs/stream] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to open execution' },
+      { status: 500 }
+    )
+  }
+}
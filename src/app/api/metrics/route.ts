@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { getMetrics } from '@/lib/storage'
+import { parseMetricsQuery } from '@/lib/metricsQuery'
+import { forbiddenResponse, getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+import { readProjectScope } from '@/lib/projects'
+
+/**
+ * Aggregate metrics over your executions, computed in Postgres:
+ * p50/p95/p99 duration and error rate per step name, and executions
+ * per hour or day. Query params: from, to (default: last 7 days),
+ * bucket=hour|day, projectId, pipeline (metadata.pipeline).
+ * Project-scoped keys only see their project.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const parsed = parseMetricsQuery(new URL(request.url).searchParams)
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const scope = readProjectScope(auth, parsed.query.projectId)
+    if (scope.error) {
+      return forbiddenResponse(scope.error)
+    }
+
+    const query = { ...parsed.query, projectId: scope.projectId }
+    const metrics = await getMetrics(query, auth.organizationId)
+
+    return NextResponse.json({
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      bucket: query.bucket,
+      projectId: query.projectId,
+      pipeline: query.pipeline,
+      ...metrics,
+    })
+  } catch (error: any) {
+    console.error('[metrics] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute metrics' },
+      { status: 500 }
+    )
+  }
+}
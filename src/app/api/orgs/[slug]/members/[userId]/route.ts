@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server'
+import {
+  getAuthOrganization,
+  getMemberRole,
+  hasRole,
+  isRole,
+  removeMember,
+  updateMemberRole,
+} from '@/lib/organizations'
+import { getAuthFromRequest, forbiddenResponse, roleRequiredResponse, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ slug: string; userId: string }>
+}
+
+/** Map membership errors thrown by lib/organizations to responses */
+function memberErrorResponse(error: any, fallback: string) {
+  if (error.message === 'Member not found') {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 404 }
+    )
+  }
+  if (error.message === 'An organization needs at least one owner') {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 409 }
+    )
+  }
+  return NextResponse.json(
+    { error: error.message || fallback },
+    { status: 500 }
+  )
+}
+
+/**
+ * Change a member's role. Body: { role }
+ * Admins manage admins and viewers; only owners can grant or take away owner.
+ */
+export async function PATCH(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin', 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot change member roles')
+  }
+
+  try {
+    const { slug, userId } = await params
+    const { role } = await request.json().catch(() => ({}))
+
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: 'role must be owner, admin or viewer' },
+        { status: 400 }
+      )
+    }
+
+    const organization = await getAuthOrganization(auth, slug)
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const current = await getMemberRole(organization.id, userId)
+    if ((role === 'owner' || current === 'owner') && !hasRole(auth.role, 'owner')) {
+      return roleRequiredResponse('owner')
+    }
+
+    await updateMemberRole(organization.id, userId, role)
+
+    return NextResponse.json({ success: true, userId, role })
+  } catch (error: any) {
+    console.error('[org-member] Error:', error)
+    return memberErrorResponse(error, 'Failed to update member')
+  }
+}
+
+/**
+ * Remove a member and the API keys they hold for the organization.
+ * Any member can remove themselves; removing others needs admin (owner for owners).
+ */
+export async function DELETE(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot remove members')
+  }
+
+  try {
+    const { slug, userId } = await params
+
+    const organization = await getAuthOrganization(auth, slug)
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    if (userId !== auth.userId) {
+      const current = await getMemberRole(organization.id, userId)
+      const required = current === 'owner' ? 'owner' : 'admin'
+      if (!hasRole(auth.role, required)) {
+        return roleRequiredResponse(required)
+      }
+    }
+
+    await removeMember(organization.id, userId)
+
+    return NextResponse.json({ success: true, userId })
+  } catch (error: any) {
+    console.error('[org-member] Error:', error)
+    return memberErrorResponse(error, 'Failed to remove member')
+  }
+}
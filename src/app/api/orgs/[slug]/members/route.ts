@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server'
+import { addMember, getAuthOrganization, getMembers, hasRole, isRole } from '@/lib/organizations'
+import { getAuthFromRequest, forbiddenResponse, roleRequiredResponse, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * List the organization's members and their roles
+ */
+export async function GET(request: Request, { params }: Props) {
+  // Auth: any member
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot list members')
+  }
+
+  try {
+    const { slug } = await params
+
+    const organization = await getAuthOrganization(auth, slug)
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      organization: { slug: organization.slug, name: organization.name },
+      members: await getMembers(organization.id)
+    })
+  } catch (error: any) {
+    console.error('[org-members] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list members' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a user to the organization. Body: { email, role? }
+ * The user must have signed up already. role defaults to viewer; only
+ * owners can add owners.
+ */
+export async function POST(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin', 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot add members')
+  }
+
+  try {
+    const { slug } = await params
+    const { email, role = 'viewer' } = await request.json().catch(() => ({}))
+
+    if (typeof email !== 'string' || !email) {
+      return NextResponse.json(
+        { error: 'email is required' },
+        { status: 400 }
+      )
+    }
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: 'role must be owner, admin or viewer' },
+        { status: 400 }
+      )
+    }
+    if (role === 'owner' && !hasRole(auth.role, 'owner')) {
+      return roleRequiredResponse('owner')
+    }
+
+    const organization = await getAuthOrganization(auth, slug)
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await addMember(organization.id, email, role)
+
+    return NextResponse.json({
+      success: true,
+      member: { userId: user.id, email: user.email, name: user.name, role }
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[org-members] Error:', error)
+
+    if (error.message === 'User not found') {
+      return NextResponse.json(
+        { error: 'No account with this email - they need to sign up first' },
+        { status: 404 }
+      )
+    }
+    if (error.message === 'User is already a member') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to add member' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server'
+import { createApiKey } from '@/lib/auth'
+import { createOrganization, getUserOrganizations } from '@/lib/organizations'
+import { validateSlug } from '@/lib/projects'
+import { forbiddenResponse, getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * List the organizations your user belongs to, with your role in each.
+ * current marks the organization this API key acts in.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const organizations = await getUserOrganizations(auth.userId)
+
+    return NextResponse.json({
+      organizations: organizations.map(o => ({
+        slug: o.slug,
+        name: o.name,
+        role: o.role,
+        current: o.id === auth.organizationId,
+        createdAt: o.createdAt,
+      }))
+    })
+  } catch (error: any) {
+    console.error('[orgs] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list organizations' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create an organization you own. Body: { slug, name? }
+ * API keys act within one organization, so this returns a new key for it -
+ * store it, it is only shown once.
+ */
+export async function POST(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot create organizations')
+  }
+
+  try {
+    const { slug, name } = await request.json().catch(() => ({}))
+
+    const slugError = validateSlug(slug)
+    if (slugError) {
+      return NextResponse.json(
+        { error: slugError },
+        { status: 400 }
+      )
+    }
+
+    const organization = await createOrganization(auth.userId, slug, typeof name === 'string' ? name.trim() : undefined)
+    const { apiKey, record } = await createApiKey(auth.userId, organization.id, {
+      name: `${organization.name} key`,
+      scopes: ['admin']
+    })
+
+    return NextResponse.json({
+      success: true,
+      organization: { slug: organization.slug, name: organization.name, createdAt: organization.createdAt },
+      role: 'owner',
+      keyId: record.id,
+      apiKey
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[orgs] Error:', error)
+
+    if (error.message === 'Organization already exists') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to create organization' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { createApiKey } from '@/lib/auth'
+import { describeApiKey, parseApiKeyOptions } from '@/lib/apiKeys'
+import { getProject } from '@/lib/projects'
+import { forbiddenResponse, getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * Create an API key scoped to a project.
+ * Body: { name?, scopes?, expiresAt? | expiresInDays? } (see POST /api/keys)
+ * Executions ingested with it are tagged with the project, and it can only
+ * read that project. The key is returned once - store it.
+ */
+export async function POST(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin', 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot create keys')
+  }
+
+  try {
+    const { slug } = await params
+    const parsed = parseApiKeyOptions(await request.json().catch(() => ({})))
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const project = await getProject(auth.organizationId, slug)
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { apiKey, record } = await createApiKey(auth.userId, auth.organizationId, {
+      ...parsed.options,
+      projectId: project.slug,
+      name: parsed.options.name ?? `${project.name} key`
+    })
+
+    return NextResponse.json({
+      success: true,
+      key: describeApiKey(record),
+      apiKey
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[project-keys] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getExecutionStats } from '@/lib/storage'
+import { getProject } from '@/lib/projects'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+type Props = {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * One of your organization's projects, with its execution stats
+ */
+export async function GET(request: Request, { params }: Props) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { slug } = await params
+
+    // Project-scoped keys can't see other projects
+    const project = !auth.projectId || auth.projectId === slug
+      ? await getProject(auth.organizationId, slug)
+      : null
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const stats = await getExecutionStats({ projectId: project.slug }, auth.organizationId)
+
+    return NextResponse.json({
+      slug: project.slug,
+      name: project.name,
+      createdAt: project.createdAt,
+      stats
+    })
+  } catch (error: any) {
+    console.error('[project] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to get project' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { getProjectStats } from '@/lib/storage'
+import { createProject, getOrganizationProjects, validateSlug } from '@/lib/projects'
+import { forbiddenResponse, getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * List your organization's projects with their execution counts.
+ * Project-scoped keys only see their own project.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const [projects, stats] = await Promise.all([
+      getOrganizationProjects(auth.organizationId),
+      getProjectStats(auth.organizationId),
+    ])
+    const statsByProject = new Map(stats.map(s => [s.projectId, s]))
+
+    return NextResponse.json({
+      projects: projects
+        .filter(p => !auth.projectId || p.slug === auth.projectId)
+        .map(p => ({
+          slug: p.slug,
+          name: p.name,
+          createdAt: p.createdAt,
+          total: statsByProject.get(p.slug)?.total ?? 0,
+          failed: statsByProject.get(p.slug)?.failed ?? 0,
+          lastStartedAt: statsByProject.get(p.slug)?.lastStartedAt,
+        }))
+    })
+  } catch (error: any) {
+    console.error('[projects] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list projects' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a project. Body: { slug, name? }
+ * Executions are ingested into it via metadata.projectId or a project-scoped key.
+ */
+export async function POST(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'admin', 'admin')
+  if (denied) {
+    return denied
+  }
+  if (auth.projectId) {
+    return forbiddenResponse('Project-scoped API keys cannot create projects')
+  }
+
+  try {
+    const { slug, name } = await request.json().catch(() => ({}))
+
+    const slugError = validateSlug(slug)
+    if (slugError) {
+      return NextResponse.json(
+        { error: slugError },
+        { status: 400 }
+      )
+    }
+
+    const project = await createProject(auth.organizationId, slug, typeof name === 'string' ? name.trim() : undefined)
+
+    return NextResponse.json({
+      success: true,
+      project: { slug: project.slug, name: project.name, createdAt: project.createdAt }
+    }, { status: 201 })
+  } catch (error: any) {
+    console.error('[projects] Error:', error)
+
+    if (error.message === 'Project already exists') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to create project' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,20 @@
 // API endpoint for manual reasoning processing
 import { NextResponse } from 'next/server'
 import { ReasoningQueue } from '@/xRay/reasoningQueue'
-import { getUserIdFromRequest, unauthorizedResponse } from '@/lib/authMiddleware'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
 import { getExecutionById } from '@/lib/storage'
 
 export async function POST(request: Request) {
-  // Extract and validate userId from API key
-  const userId = await getUserIdFromRequest(request)
+  // Extract and validate the API key
+  const auth = await getAuthFromRequest(request)
 
-  if (!userId) {
+  if (!auth) {
     return unauthorizedResponse()
   }
+  const denied = checkAccess(auth, 'ingest', 'admin')
+  if (denied) {
+    return denied
+  }
 
   try {
     const { executionId } = await request.json()
@@ -22,8 +26,8 @@ export async function POST(request: Request) {
       )
     }
 
-    // Verify user owns this execution
-    const execution = await getExecutionById(executionId, userId)
+    // Verify the execution belongs to the organization
+    const execution = await getExecutionById(executionId, auth.organizationId, auth.projectId)
 
     if (!execution) {
       return NextResponse.json(
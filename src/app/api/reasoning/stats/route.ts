@@ -1,8 +1,19 @@
 // API endpoint for reasoning queue statistics
 import { NextResponse } from 'next/server'
 import { ReasoningQueue } from '@/xRay/reasoningQueue'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+export async function GET(request: Request) {
+  // Auth: any organization member
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
 
-export async function GET() {
   try {
     const queue = ReasoningQueue.getInstance()
     const stats = queue.getStats()
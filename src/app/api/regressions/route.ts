@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getPipelineExecutions } from '@/lib/storage'
+import { detectRegressions, parseRegressionQuery } from '@/lib/regression'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * Regression report between two versions of a pipeline (metadata.pipeline),
+ * over the inputs both have run.
+ * Query params: baseline, candidate (required), matchKey (default product_asin),
+ * maxSelectionChangeRate, maxPassRateShift, maxDurationIncrease, minEvaluations.
+ * The report's `passed` is false when any threshold is crossed - gate deploys on it.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const parsed = parseRegressionQuery(new URL(request.url).searchParams)
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const [baseline, candidate] = await Promise.all([
+      getPipelineExecutions(parsed.baseline, auth.organizationId, auth.projectId),
+      getPipelineExecutions(parsed.candidate, auth.organizationId, auth.projectId),
+    ])
+
+    return NextResponse.json(
+      detectRegressions(parsed.baseline, baseline, parsed.candidate, candidate, parsed.options)
+    )
+  } catch (error: any) {
+    console.error('[regressions] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to detect regressions' },
+      { status: 500 }
+    )
+  }
+}
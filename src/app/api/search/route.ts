@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { searchSteps } from '@/lib/storage'
+import { SEARCH_FIELDS, SearchField } from '@/lib/search'
+import { getAuthFromRequest, unauthorizedResponse, checkAccess } from '@/lib/authMiddleware'
+
+/**
+ * Full-text search over your steps' errors, reasoning, inputs and outputs.
+ * Query params: q (required; words, "phrases", OR, -exclude),
+ * fields (comma-separated subset of error,reasoning,input,output),
+ * limit (max 200). Each hit lists where the terms matched, for highlighting.
+ */
+export async function GET(request: Request) {
+  // Auth
+  const auth = await getAuthFromRequest(request)
+  if (!auth) {
+    return unauthorizedResponse()
+  }
+  const denied = checkAccess(auth, 'read')
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const params = new URL(request.url).searchParams
+    const text = params.get('q')?.trim()
+
+    if (!text) {
+      return NextResponse.json(
+        { error: 'q is required' },
+        { status: 400 }
+      )
+    }
+
+    const fields = (params.get('fields') || '')
+      .split(',')
+      .map(f => f.trim())
+      .filter(Boolean)
+    const unknown = fields.filter(f => !SEARCH_FIELDS.includes(f as SearchField))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown fields: ${unknown.join(', ')} (expected ${SEARCH_FIELDS.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    const limit = params.get('limit')
+    if (limit !== null && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const results = await searchSteps({
+      text,
+      fields: fields as SearchField[],
+      limit: limit === null ? undefined : Number(limit),
+    }, auth.organizationId, auth.projectId)
+
+    return NextResponse.json({ query: text, results })
+  } catch (error: any) {
+    console.error('[search] Error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Search failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import Link from "next/link"
+import { getExecutionById } from "@/lib/storage"
+import { requireSession } from "@/lib/sessions"
+import { compareExecutions, ExecutionSummary } from "@/lib/compare"
+import StepComparisonCard from "@/app/components/StepComparisonCard"
+import JsonDiffList from "@/app/components/JsonDiffList"
+import SelectionDiffView from "@/app/components/SelectionDiffView"
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Props = {
+  searchParams: Promise<{ a?: string; b?: string }>
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '-'
+  return Math.abs(ms) < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function RunSummary({ label, run }: { label: string; run: ExecutionSummary }) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <p className="text-sm font-medium text-gray-600 mb-1">Run {label}</p>
+      <Link
+        href={`/execution/${encodeURIComponent(run.executionId)}`}
+        className="text-lg font-semibold text-blue-600 hover:text-blue-700 break-all"
+      >
+        {run.executionId}
+      </Link>
+      <p className="text-sm text-gray-500 mt-1">
+        {run.pipeline && <>{run.pipeline} · </>}
+        {new Date(run.startedAt).toLocaleString()} · {run.stepCount} steps · {formatDuration(run.durationMs)}
+      </p>
+    </div>
+  )
+}
+
+export default async function ComparePage({ searchParams }: Props) {
+  const session = await requireSession('/compare')
+  const params = await searchParams
+  const a = params.a?.trim()
+  const b = params.b?.trim()
+
+  const [executionA, executionB] = await Promise.all([
+    a ? getExecutionById(a, session.organizationId) : undefined,
+    b ? getExecutionById(b, session.organizationId) : undefined,
+  ])
+  const missing = [a && !executionA && a, b && !executionB && b].filter(Boolean)
+  const comparison = executionA && executionB ? compareExecutions(executionA, executionB) : undefined
+  const delta = comparison?.duration.delta
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">Compare Executions</h1>
+              <p className="text-sm text-gray-500 mt-1">Put two runs side by side, step by step</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Execution Pickers */}
+        <form method="get" className="bg-white rounded-xl border border-gray-200 p-5 mb-8 flex flex-wrap gap-3">
+          <input
+            type="text"
+            name="a"
+            defaultValue={a}
+            placeholder="Run A (baseline) execution ID"
+            className="flex-1 min-w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 font-mono"
+          />
+          <input
+            type="text"
+            name="b"
+            defaultValue={b}
+            placeholder="Run B execution ID"
+            className="flex-1 min-w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 font-mono"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Compare
+          </button>
+        </form>
+
+        {missing.length > 0 && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Execution not found: <span className="font-mono">{missing.join(', ')}</span>
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <RunSummary label="A" run={comparison.a} />
+              <RunSummary label="B" run={comparison.b} />
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Difference</p>
+                <p className={`text-3xl font-bold ${delta === undefined || delta === 0 ? 'text-gray-900' : delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {delta === undefined ? '-' : `${delta > 0 ? '+' : delta < 0 ? '-' : ''}${formatDuration(Math.abs(delta))}`}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {comparison.summary.changed} changed · {comparison.summary.added} added · {comparison.summary.removed} removed · {comparison.summary.unchanged} unchanged
+                </p>
+              </div>
+            </div>
+
+            {/* Final Outcome */}
+            {(comparison.selection || comparison.finalOutcome.changes.length > 0) && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Final Outcome</h3>
+                {comparison.selection && <SelectionDiffView title="Selected" selection={comparison.selection} />}
+                <JsonDiffList title="Changes" diff={comparison.finalOutcome} />
+              </div>
+            )}
+
+            {/* Steps */}
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Pipeline Steps</h2>
+            <div className="space-y-4">
+              {comparison.steps.map((step, i) => (
+                <StepComparisonCard key={`${step.stepIds.a ?? ''}/${step.stepIds.b ?? ''}/${i}`} comparison={step} />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { FunnelStage } from '@/lib/funnel'
+
+interface CandidateFunnelProps {
+  stages: FunnelStage[]
+}
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+export default function CandidateFunnel({ stages }: CandidateFunnelProps) {
+  const max = Math.max(1, ...stages.map(s => s.before ?? s.count))
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Candidate Funnel</h3>
+      <div className="space-y-4">
+        {stages.map((stage, i) => (
+          <div key={stage.stepId ?? i}>
+            <div className="flex items-baseline justify-between mb-1">
+              <span className="text-sm font-medium text-gray-900">{formatName(stage.stepName)}</span>
+              <span className="text-sm text-gray-600">
+                <span className="font-semibold text-gray-900">{stage.count}</span>
+                {stage.before !== undefined && ` / ${stage.before}`}
+                {stage.found !== undefined && <span className="text-gray-500"> ({stage.found.toLocaleString()} found)</span>}
+              </span>
+            </div>
+
+            {/* Surviving candidates, with the dropped share shaded behind them */}
+            <div className="relative h-6 bg-gray-100 rounded-lg overflow-hidden">
+              {stage.before !== undefined && (
+                <div
+                  className="absolute inset-y-0 left-0 bg-red-100"
+                  style={{ width: `${(stage.before / max) * 100}%` }}
+                />
+              )}
+              <div
+                className="absolute inset-y-0 left-0 bg-gradient-to-r from-blue-500 to-indigo-500"
+                style={{ width: `${(stage.count / max) * 100}%` }}
+              />
+            </div>
+
+            {stage.dropped > 0 && (
+              <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-red-700">
+                <span className="font-medium">−{stage.dropped} dropped</span>
+                {stage.dropOff.map(d => (
+                  <span key={d.reason}>{formatName(d.reason)}: {d.count}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { EntityLineage, LineageStatus } from '@/lib/lineage'
+
+interface EntityLineagePanelProps {
+  entity?: string
+  lineage?: EntityLineage
+}
+
+const STATUS_STYLES: Record<LineageStatus, { label: string; className: string }> = {
+  appeared: { label: 'Appeared', className: 'bg-blue-100 text-blue-700' },
+  kept: { label: 'Kept', className: 'bg-green-100 text-green-700' },
+  dropped: { label: 'Dropped', className: 'bg-red-100 text-red-700' },
+  mentioned: { label: 'Mentioned', className: 'bg-gray-100 text-gray-700' },
+  absent: { label: 'Not present', className: 'bg-gray-50 text-gray-400' },
+}
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+/**
+ * Search box plus the lineage of the searched entity.
+ * Submits as ?entity=... so results are rendered on the server.
+ */
+export default function EntityLineagePanel({ entity, lineage }: EntityLineagePanelProps) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Trace a Candidate</h3>
+        <form method="get" className="flex gap-2">
+          <input
+            type="text"
+            name="entity"
+            defaultValue={entity}
+            placeholder="ID, e.g. an ASIN"
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-900 font-mono"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Trace
+          </button>
+        </form>
+      </div>
+
+      {lineage && !lineage.found && (
+        <p className="text-sm text-gray-500">
+          <span className="font-mono">{lineage.entityId}</span> does not appear in any step of this execution.
+        </p>
+      )}
+
+      {lineage?.found && (
+        <>
+          {/* Summary */}
+          <p className="text-sm text-gray-700 mb-4">
+            <span className="font-mono font-medium">{lineage.entityId}</span> first appeared in{' '}
+            <span className="font-medium">{formatName(lineage.firstSeen!.stepName)}</span>
+            {lineage.droppedAt ? (
+              <>
+                {' '}and was dropped at <span className="font-medium text-red-700">{formatName(lineage.droppedAt.stepName)}</span>
+                {lineage.droppedAt.reason && <>: {lineage.droppedAt.reason}</>}
+              </>
+            ) : lineage.survived ? (
+              <> and made it through every step that referenced it.</>
+            ) : '.'}
+          </p>
+
+          {/* Per-step trail */}
+          <ol className="space-y-2">
+            {lineage.steps.map((step, i) => {
+              const style = STATUS_STYLES[step.status]
+              return (
+                <li key={step.stepId ?? i} className="flex items-start gap-3">
+                  <span className={`flex-shrink-0 w-28 text-center px-2 py-0.5 rounded-md text-xs font-semibold ${style.className}`}>
+                    {style.label}
+                  </span>
+                  <div className={`text-sm ${step.status === 'absent' ? 'text-gray-400' : 'text-gray-900'}`}>
+                    <span className="font-medium">{formatName(step.stepName)}</span>
+                    {step.reason && <span className="text-red-700"> — {step.reason}</span>}
+                    {(step.inputPaths.length > 0 || step.outputPaths.length > 0) && (
+                      <div className="text-xs text-gray-500 font-mono">
+                        {step.inputPaths.length > 0 && <div>input: {step.inputPaths.join(', ')}</div>}
+                        {step.outputPaths.length > 0 && <div>output: {step.outputPaths.join(', ')}</div>}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { CandidateEvaluation, failedFilters } from '@/lib/evaluations'
+
+interface EvaluationTableProps {
+  evaluations: CandidateEvaluation[]
+}
+
+type StatusFilter = 'all' | 'passed' | 'rejected'
+
+function formatFilterName(filter: string) {
+  return filter.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+export default function EvaluationTable({ evaluations }: EvaluationTableProps) {
+  const [search, setSearch] = useState('')
+  const [status, setStatus] = useState<StatusFilter>('all')
+  const [eliminatedBy, setEliminatedBy] = useState('')
+
+  // Every filter any candidate was checked against, in first-seen order
+  const filters = useMemo(() => {
+    const names = new Set<string>()
+    evaluations.forEach(e => e.filterResults.forEach(r => names.add(r.filter)))
+    return Array.from(names)
+  }, [evaluations])
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return evaluations.filter(e => {
+      if (status === 'passed' && e.passed !== true) return false
+      if (status === 'rejected' && e.passed !== false) return false
+      if (eliminatedBy && !failedFilters(e).some(r => r.filter === eliminatedBy)) return false
+      if (query && !e.candidateId.toLowerCase().includes(query) && !String(e.label ?? '').toLowerCase().includes(query)) return false
+      return true
+    })
+  }, [evaluations, search, status, eliminatedBy])
+
+  const passedCount = evaluations.filter(e => e.passed === true).length
+  const rejectedCount = evaluations.filter(e => e.passed === false).length
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-3 py-2 bg-gray-100 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-gray-600 uppercase tracking-wide">
+          Candidates ({evaluations.length}) · {passedCount} passed · {rejectedCount} rejected
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search candidate..."
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+          />
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as StatusFilter)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+          >
+            <option value="all">All</option>
+            <option value="passed">Passed</option>
+            <option value="rejected">Rejected</option>
+          </select>
+          {filters.length > 0 && (
+            <select
+              value={eliminatedBy}
+              onChange={e => setEliminatedBy(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+            >
+              <option value="">Any filter</option>
+              {filters.map(filter => (
+                <option key={filter} value={filter}>Failed {formatFilterName(filter)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-96">
+        <table className="w-full text-sm">
+          <thead className="bg-white sticky top-0">
+            <tr className="text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+              <th className="px-3 py-2">Candidate</th>
+              <th className="px-3 py-2">Result</th>
+              {filters.map(filter => (
+                <th key={filter} className="px-3 py-2">{formatFilterName(filter)}</th>
+              ))}
+              <th className="px-3 py-2">Eliminated By</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.map((evaluation, i) => {
+              const failed = failedFilters(evaluation)
+              return (
+                <tr key={`${evaluation.candidateId}-${i}`} className={evaluation.passed === false ? 'bg-red-50/50' : undefined}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{evaluation.label ?? evaluation.candidateId}</div>
+                    {evaluation.label && <div className="text-xs text-gray-500 font-mono">{evaluation.candidateId}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    {evaluation.passed === undefined ? (
+                      <span className="text-gray-400">—</span>
+                    ) : (
+                      <span className={`font-semibold ${evaluation.passed ? 'text-green-700' : 'text-red-700'}`}>
+                        {evaluation.passed ? 'Passed' : 'Rejected'}
+                      </span>
+                    )}
+                  </td>
+                  {filters.map(filter => {
+                    const result = evaluation.filterResults.find(r => r.filter === filter)
+                    return (
+                      <td key={filter} className="px-3 py-2" title={result?.detail}>
+                        {!result ? (
+                          <span className="text-gray-400">—</span>
+                        ) : result.passed ? (
+                          <span className="text-green-700">✓</span>
+                        ) : (
+                          <span className="text-red-700">✗</span>
+                        )}
+                      </td>
+                    )
+                  })}
+                  <td className="px-3 py-2 text-gray-700">
+                    {failed.length > 0
+                      ? failed.map(r => (
+                          <div key={r.filter}>
+                            <span className="font-medium">{formatFilterName(r.filter)}</span>
+                            {r.detail && <span className="text-xs text-gray-500"> — {r.detail}</span>}
+                          </div>
+                        ))
+                      : evaluation.passed === false && evaluation.reasoning
+                        ? <span className="text-xs">{evaluation.reasoning}</span>
+                        : <span className="text-gray-400">—</span>}
+                  </td>
+                </tr>
+              )
+            })}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={filters.length + 3} className="px-3 py-4 text-center text-gray-500">
+                  No candidates match these filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import Link from 'next/link'
+
+interface ExecutionFiltersProps {
+  params: URLSearchParams
+}
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white'
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1'
+
+/**
+ * Listing filters as a plain GET form, so the home page stays server-rendered
+ * and filtered views can be bookmarked
+ */
+export default function ExecutionFilters({ params }: ExecutionFiltersProps) {
+  const value = (key: string) => params.get(key) ?? ''
+
+  return (
+    <form method="get" className="bg-white rounded-xl border border-gray-200 p-5 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        <div>
+          <label className={labelClass} htmlFor="from">From</label>
+          <input id="from" name="from" type="datetime-local" defaultValue={value('from')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="to">To</label>
+          <input id="to" name="to" type="datetime-local" defaultValue={value('to')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="projectId">Project</label>
+          <input id="projectId" name="projectId" defaultValue={value('projectId')} placeholder="default" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pipeline">Pipeline</label>
+          <input id="pipeline" name="metadata.pipeline" defaultValue={value('metadata.pipeline')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="domain">Domain</label>
+          <input id="domain" name="metadata.domain" defaultValue={value('metadata.domain')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="stepName">Step Name</label>
+          <input id="stepName" name="stepName" defaultValue={value('stepName')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="hasError">Status</label>
+          <select id="hasError" name="hasError" defaultValue={value('hasError')} className={inputClass}>
+            <option value="">Any</option>
+            <option value="true">With errors</option>
+            <option value="false">Without errors</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="ingestedBy">Ingested By</label>
+          <select id="ingestedBy" name="ingestedBy" defaultValue={value('ingestedBy')} className={inputClass}>
+            <option value="">Anyone</option>
+            <option value="me">Me</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="minDurationMs">Min Duration (ms)</label>
+          <input id="minDurationMs" name="minDurationMs" type="number" min={0} defaultValue={value('minDurationMs')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="maxDurationMs">Max Duration (ms)</label>
+          <input id="maxDurationMs" name="maxDurationMs" type="number" min={0} defaultValue={value('maxDurationMs')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="sort">Sort By</label>
+          <select id="sort" name="sort" defaultValue={value('sort')} className={inputClass}>
+            <option value="">Start time</option>
+            <option value="durationMs">Duration</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="order">Order</label>
+          <select id="order" name="order" defaultValue={value('order')} className={inputClass}>
+            <option value="">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </div>
+        <div className="flex items-end gap-2">
+          <button
+            type="submit"
+            className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Apply
+          </button>
+          <Link
+            href="/"
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Clear
+          </Link>
+        </div>
+      </div>
+    </form>
+  )
+}
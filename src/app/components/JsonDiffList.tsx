@@ -0,0 +1,65 @@
+import { ChangeKind, JsonDiff } from '@/lib/compare'
+
+interface JsonDiffListProps {
+  title: string
+  diff: JsonDiff
+}
+
+const KIND_STYLES: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  moved: { label: 'Moved', className: 'bg-blue-100 text-blue-700' },
+}
+
+function formatValue(value: any) {
+  if (value === undefined) return ''
+  const text = JSON.stringify(value)
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text
+}
+
+/**
+ * Structural JSON differences as a path → before/after list.
+ * Numeric changes also show the delta.
+ */
+export default function JsonDiffList({ title, diff }: JsonDiffListProps) {
+  if (diff.changes.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        {title} <span className="font-normal text-gray-500">({diff.changes.length}{diff.truncated ? '+' : ''} changes)</span>
+      </h4>
+      <div className="bg-gray-50 rounded-lg border border-gray-200 divide-y divide-gray-200">
+        {diff.changes.map((change, i) => {
+          const style = KIND_STYLES[change.kind]
+          const delta = change.kind === 'changed' && typeof change.before === 'number' && typeof change.after === 'number'
+            ? change.after - change.before
+            : undefined
+          return (
+            <div key={i} className="flex items-start gap-3 px-3 py-2 text-sm">
+              <span className={`flex-shrink-0 w-20 text-center px-2 py-0.5 rounded-md text-xs font-semibold ${style.className}`}>
+                {style.label}
+              </span>
+              <span className="font-mono text-gray-700 break-all">{change.path || '(root)'}</span>
+              <span className="flex-1 font-mono text-right break-all">
+                {change.kind === 'moved' ? (
+                  <span className="text-gray-600">#{change.before + 1} → #{change.after + 1}</span>
+                ) : (
+                  <>
+                    {change.before !== undefined && <span className="text-red-700 line-through">{formatValue(change.before)}</span>}
+                    {change.before !== undefined && change.after !== undefined && <span className="text-gray-400"> → </span>}
+                    {change.after !== undefined && <span className="text-green-700">{formatValue(change.after)}</span>}
+                    {delta !== undefined && (
+                      <span className="text-gray-500"> ({delta > 0 ? '+' : ''}{delta})</span>
+                    )}
+                  </>
+                )}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+'use client'
+
+interface OrganizationSwitcherProps {
+  organizations: { slug: string; name: string }[]
+  current: string
+  redirect: string             // Page to come back to after switching
+}
+
+/**
+ * Organization picker for the dashboard header. Posts to /orgs/switch,
+ * which moves the session to the chosen organization.
+ */
+export default function OrganizationSwitcher({ organizations, current, redirect }: OrganizationSwitcherProps) {
+  return (
+    <form method="post" action="/orgs/switch" className="flex items-center gap-2">
+      <input type="hidden" name="redirect" value={redirect} />
+      <label htmlFor="organization-switcher" className="text-sm font-medium text-gray-600">Organization</label>
+      <select
+        id="organization-switcher"
+        name="organization"
+        defaultValue={current}
+        onChange={e => e.currentTarget.form?.requestSubmit()}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+      >
+        {organizations.map(o => <option key={o.slug} value={o.slug}>{o.name}</option>)}
+      </select>
+    </form>
+  )
+}
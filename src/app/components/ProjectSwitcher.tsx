@@ -0,0 +1,30 @@
+'use client'
+
+interface ProjectSwitcherProps {
+  projects: string[]
+  current?: string
+  redirect: string             // Page to come back to after switching
+}
+
+/**
+ * Project picker for the dashboard header. Posts to /projects/switch,
+ * which remembers the choice in a cookie.
+ */
+export default function ProjectSwitcher({ projects, current, redirect }: ProjectSwitcherProps) {
+  return (
+    <form method="post" action="/projects/switch" className="flex items-center gap-2">
+      <input type="hidden" name="redirect" value={redirect} />
+      <label htmlFor="project-switcher" className="text-sm font-medium text-gray-600">Project</label>
+      <select
+        id="project-switcher"
+        name="project"
+        defaultValue={current ?? ''}
+        onChange={e => e.currentTarget.form?.requestSubmit()}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+      >
+        <option value="">All projects</option>
+        {projects.map(p => <option key={p} value={p}>{p}</option>)}
+      </select>
+    </form>
+  )
+}
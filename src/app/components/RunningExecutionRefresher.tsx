@@ -0,0 +1,28 @@
+"use client"
+
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+
+interface Props {
+  isRunning: boolean
+  intervalMs?: number
+}
+
+/**
+ * Re-renders the page periodically while an execution is still streaming steps
+ */
+export default function RunningExecutionRefresher({
+  isRunning,
+  intervalMs = 5000
+}: Props) {
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!isRunning) return
+
+    const interval = setInterval(() => router.refresh(), intervalMs)
+    return () => clearInterval(interval)
+  }, [isRunning, intervalMs, router])
+
+  return null // This component only handles side effects
+}
@@ -0,0 +1,37 @@
+import { SelectionDiff } from '@/lib/compare'
+
+interface SelectionDiffViewProps {
+  title: string
+  selection: SelectionDiff
+}
+
+/**
+ * Candidates kept in each run: IDs only selected by b are green,
+ * IDs only selected by a are red and struck through
+ */
+export default function SelectionDiffView({ title, selection }: SelectionDiffViewProps) {
+  const unchanged = selection.after.filter(id => !selection.added.includes(id))
+  const changed = selection.added.length > 0 || selection.removed.length > 0
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        {title}{' '}
+        <span className="font-normal text-gray-500">
+          ({selection.before.length} → {selection.after.length}{changed ? '' : ', unchanged'})
+        </span>
+      </h4>
+      <div className="flex flex-wrap gap-2">
+        {selection.removed.map(id => (
+          <span key={`removed-${id}`} className="px-2 py-0.5 rounded-md text-xs font-mono bg-red-100 text-red-700 line-through">{id}</span>
+        ))}
+        {selection.added.map(id => (
+          <span key={`added-${id}`} className="px-2 py-0.5 rounded-md text-xs font-mono bg-green-100 text-green-700">+ {id}</span>
+        ))}
+        {unchanged.map(id => (
+          <span key={`kept-${id}`} className="px-2 py-0.5 rounded-md text-xs font-mono bg-gray-100 text-gray-600">{id}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
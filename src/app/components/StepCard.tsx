@@ -1,28 +1,33 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Step } from '@/xRay'
+import { extractEvaluations } from '@/lib/evaluations'
+import EvaluationTable from './EvaluationTable'
 
 interface StepCardProps {
   step: Step
   index: number
+  depth?: number
   children?: React.ReactNode
 }
 
-export default function StepCard({ step, index, children }: StepCardProps) {
+export default function StepCard({ step, index, depth = 0, children }: StepCardProps) {
   const [showInput, setShowInput] = useState(false)
   const [showOutput, setShowOutput] = useState(false)
+  const [showCandidates, setShowCandidates] = useState(false)
 
   const hasError = !!step.error
   const hasInput = step.input && Object.keys(step.input).length > 0
   const hasOutput = step.output && Object.keys(step.output).length > 0
+  const evaluations = useMemo(() => extractEvaluations(step), [step])
 
   return (
     <div className={`bg-white rounded-xl border-2 transition-all duration-200 ${
       hasError
         ? 'border-red-200 bg-red-50/30'
         : 'border-gray-200 hover:border-blue-300'
-    }`}>
+    }`} style={depth > 0 ? { marginLeft: `${depth * 2}rem` } : undefined}>
       {/* Header */}
       <div className="p-5 border-b border-gray-100">
         <div className="flex items-start justify-between">
@@ -39,6 +44,7 @@ export default function StepCard({ step, index, children }: StepCardProps) {
             {/* Step Info */}
             <div className="flex-1">
               <h3 className="font-semibold text-gray-900 text-lg mb-1">
+                {depth > 0 && <span className="text-gray-400 mr-2">↳</span>}
                 {step.name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
               </h3>
               {step.timestamp && (
@@ -107,8 +113,25 @@ export default function StepCard({ step, index, children }: StepCardProps) {
               Output
             </button>
           )}
+
+          {evaluations.length > 0 && (
+            <button
+              onClick={() => setShowCandidates(!showCandidates)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors flex items-center gap-1.5"
+            >
+              <svg className={`w-4 h-4 transition-transform ${showCandidates ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              Candidates ({evaluations.length})
+            </button>
+          )}
         </div>
 
+        {/* Candidate Evaluations */}
+        {showCandidates && evaluations.length > 0 && (
+          <EvaluationTable evaluations={evaluations} />
+        )}
+
         {/* Input Display */}
         {showInput && hasInput && (
           <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
@@ -0,0 +1,112 @@
+import { NumberDelta, StepChangeStatus, StepComparison } from '@/lib/compare'
+import JsonDiffList from './JsonDiffList'
+import SelectionDiffView from './SelectionDiffView'
+
+interface StepComparisonCardProps {
+  comparison: StepComparison
+}
+
+const STATUS_STYLES: Record<StepChangeStatus, { label: string; className: string; border: string }> = {
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600', border: 'border-gray-200' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800', border: 'border-yellow-200' },
+  added: { label: 'Only in B', className: 'bg-green-100 text-green-700', border: 'border-green-200' },
+  removed: { label: 'Only in A', className: 'bg-red-100 text-red-700', border: 'border-red-200' },
+}
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '-'
+  return Math.abs(ms) < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`
+}
+
+/**
+ * "before → after (+delta)". higherIsWorse colors increases red (durations);
+ * otherwise any change is highlighted neutrally (counts).
+ */
+function DeltaValue({ label, value, format = String, higherIsWorse = false }: {
+  label: string
+  value: NumberDelta
+  format?: (n?: number) => string
+  higherIsWorse?: boolean
+}) {
+  if (value.before === undefined && value.after === undefined) return null
+
+  const changed = value.delta !== undefined && value.delta !== 0
+  const deltaClass = !changed
+    ? 'text-gray-400'
+    : higherIsWorse
+      ? value.delta! > 0 ? 'text-red-600' : 'text-green-600'
+      : 'text-blue-600'
+
+  return (
+    <div className={`px-3 py-1 rounded-lg ${changed ? 'bg-yellow-50' : 'bg-gray-100'}`}>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm font-medium text-gray-900">
+        {value.before !== undefined ? format(value.before) : '-'} → {value.after !== undefined ? format(value.after) : '-'}
+        {changed && (
+          <span className={`ml-1 ${deltaClass}`}>
+            ({value.delta! > 0 ? '+' : '-'}{format(Math.abs(value.delta!))})
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * One aligned step of a run comparison: what changed between run A and
+ * run B, with both runs' reasoning side by side
+ */
+export default function StepComparisonCard({ comparison }: StepComparisonCardProps) {
+  const style = STATUS_STYLES[comparison.status]
+  const { reasoning, error } = comparison
+  const paired = comparison.status === 'unchanged' || comparison.status === 'changed'
+
+  return (
+    <div className={`bg-white rounded-xl border-2 ${style.border}`}>
+      {/* Header */}
+      <div className="p-5 border-b border-gray-100 flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <h3 className="font-semibold text-gray-900 text-lg">{formatName(comparison.stepName)}</h3>
+          <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${style.className}`}>{style.label}</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <DeltaValue label="Duration" value={comparison.duration} format={formatDuration} higherIsWorse />
+          <DeltaValue label="Candidates in" value={comparison.counts.before} />
+          <DeltaValue label="Candidates out" value={comparison.counts.after} />
+        </div>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {comparison.selection && (
+          <SelectionDiffView title="Kept Candidates" selection={comparison.selection} />
+        )}
+
+        {paired && <JsonDiffList title="Input" diff={comparison.input} />}
+        {paired && <JsonDiffList title="Output" diff={comparison.output} />}
+
+        {/* Errors and reasoning, A on the left and B on the right */}
+        {(error.a || error.b || reasoning.a || reasoning.b) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(['a', 'b'] as const).map(side => (
+              <div key={side} className="space-y-2">
+                <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Run {side.toUpperCase()}</div>
+                {error[side] && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error[side]}</div>
+                )}
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-800 whitespace-pre-wrap">
+                  {reasoning[side] || (
+                    <span className="text-gray-400">{comparison.stepIds[side] ? 'No reasoning' : 'Step did not run'}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { StepMetrics } from '@/lib/storage'
+
+interface StepLatencyTableProps {
+  steps: StepMetrics[]
+}
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '-'
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`
+}
+
+/**
+ * Per-step latency percentiles and error rates. The bar spans p50 to p99
+ * (p95 marked), scaled to the slowest step's p99.
+ */
+export default function StepLatencyTable({ steps }: StepLatencyTableProps) {
+  const max = Math.max(1, ...steps.map(s => s.p99 ?? 0))
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Steps</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b border-gray-200">
+            <th className="py-2 font-medium">Step</th>
+            <th className="py-2 font-medium text-right">Runs</th>
+            <th className="py-2 font-medium text-right">p50</th>
+            <th className="py-2 font-medium text-right">p95</th>
+            <th className="py-2 font-medium text-right">p99</th>
+            <th className="py-2 font-medium pl-6 w-1/4">Latency</th>
+            <th className="py-2 font-medium text-right">Error Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map(step => (
+            <tr key={step.stepName} className="border-b border-gray-100">
+              <td className="py-2 text-gray-900 font-medium">{formatName(step.stepName)}</td>
+              <td className="py-2 text-right text-gray-700">{step.count.toLocaleString()}</td>
+              <td className="py-2 text-right text-gray-700">{formatDuration(step.p50)}</td>
+              <td className="py-2 text-right text-gray-700">{formatDuration(step.p95)}</td>
+              <td className="py-2 text-right text-gray-700">{formatDuration(step.p99)}</td>
+              <td className="py-2 pl-6">
+                {step.p50 !== undefined && step.p99 !== undefined && (
+                  <div className="relative h-3 bg-gray-100 rounded">
+                    <div
+                      className="absolute inset-y-0 bg-blue-200 rounded"
+                      style={{ left: `${(step.p50 / max) * 100}%`, width: `${((step.p99 - step.p50) / max) * 100}%` }}
+                    />
+                    <div className="absolute inset-y-0 w-0.5 bg-blue-600" style={{ left: `${(step.p50 / max) * 100}%` }} />
+                    <div className="absolute inset-y-0 w-0.5 bg-indigo-400" style={{ left: `${(step.p95! / max) * 100}%` }} />
+                  </div>
+                )}
+              </td>
+              <td className={`py-2 text-right font-medium ${step.errors > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                {(step.errorRate * 100).toFixed(1)}%
+                <span className="text-xs font-normal text-gray-500"> ({step.errors})</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
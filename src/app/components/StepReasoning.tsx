@@ -4,12 +4,14 @@ import { useEffect, useState } from "react"
 
 interface StepReasoningProps {
   executionId: string
+  stepId: string
   stepName: string
   initialReasoning?: string
 }
 
 export default function StepReasoning({
   executionId,
+  stepId,
   stepName,
   initialReasoning
 }: StepReasoningProps) {
@@ -41,6 +43,13 @@ export default function StepReasoning({
 
         try {
           const response = await fetch(`/api/internal/execution/${executionId}`)
+          // Signed out, or no longer allowed to see this execution: polling won't help
+          if ([401, 403, 404].includes(response.status)) {
+            setIsLoading(false)
+            clearInterval(pollInterval)
+            console.warn(`[UI] Stopped polling for ${stepName}: ${response.status}`)
+            return
+          }
           if (!response.ok) {
             console.error(`[UI] Failed to fetch execution: ${response.statusText}`)
             return
@@ -48,8 +57,8 @@ export default function StepReasoning({
 
           const execution = await response.json()
 
-          // Find the step with matching name
-          const step = execution.steps?.find((s: any) => s.name === stepName)
+          // Find the step with matching ID (names can repeat within an execution)
+          const step = execution.steps?.find((s: any) => s.id === stepId)
 
           if (step?.reasoning) {
             setReasoning(step.reasoning)
@@ -68,7 +77,7 @@ export default function StepReasoning({
 
     // Cleanup timeout on unmount
     return () => clearTimeout(initialDelay)
-  }, [executionId, stepName, initialReasoning, pollCount])
+  }, [executionId, stepId, stepName, initialReasoning, pollCount])
 
   if (isLoading) {
     return (
@@ -0,0 +1,55 @@
+import { MetricsBucket, VolumePoint } from '@/lib/storage'
+
+interface VolumeChartProps {
+  points: VolumePoint[]
+  bucket: MetricsBucket
+}
+
+function formatBucket(iso: string, bucket: MetricsBucket) {
+  const date = new Date(iso)
+  return bucket === 'hour'
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Executions per hour/day as a bar chart, with failed executions in red
+ */
+export default function VolumeChart({ points, bucket }: VolumeChartProps) {
+  const max = Math.max(1, ...points.map(p => p.executions))
+  // Label roughly every eighth bar so the axis stays readable
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8))
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Executions per {bucket === 'hour' ? 'Hour' : 'Day'}</h3>
+        <div className="flex gap-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-500" /> Succeeded</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-400" /> Failed</span>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-px h-40">
+        {points.map(point => (
+          <div
+            key={point.bucket}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${formatBucket(point.bucket, bucket)}: ${point.executions} executions, ${point.failed} failed`}
+          >
+            <div className="bg-red-400" style={{ height: `${(point.failed / max) * 100}%` }} />
+            <div className="bg-blue-500 rounded-t-sm" style={{ height: `${((point.executions - point.failed) / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-px mt-2">
+        {points.map((point, i) => (
+          <div key={point.bucket} className="flex-1 text-[10px] text-gray-500 whitespace-nowrap overflow-visible">
+            {i % labelEvery === 0 ? formatBucket(point.bucket, bucket) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
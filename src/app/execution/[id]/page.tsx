@@ -1,8 +1,16 @@
 import Link from "next/link"
 import { getExecutionById } from "@/lib/storage"
+import { requireSession } from "@/lib/sessions"
+import { hasRole } from "@/lib/organizations"
 import ExecutionReasoningTrigger from "@/app/components/ExecutionReasoningTrigger"
 import StepReasoning from "@/app/components/StepReasoning"
 import StepCard from "@/app/components/StepCard"
+import RunningExecutionRefresher from "@/app/components/RunningExecutionRefresher"
+import CandidateFunnel from "@/app/components/CandidateFunnel"
+import EntityLineagePanel from "@/app/components/EntityLineagePanel"
+import { flattenStepTree } from "@/lib/stepTree"
+import { buildCandidateFunnel } from "@/lib/funnel"
+import { traceEntity } from "@/lib/lineage"
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic'
@@ -10,11 +18,15 @@ export const revalidate = 0
 
 type Props = {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ entity?: string }>
 }
 
-export default async function ExecutionPage({ params }: Props) {
+export default async function ExecutionPage({ params, searchParams }: Props) {
   const { id } = await params
-  const execution = await getExecutionById(id)
+  const entity = (await searchParams).entity?.trim()
+  const session = await requireSession(`/execution/${encodeURIComponent(id)}`)
+  // Executions of other organizations look the same as missing ones
+  const execution = await getExecutionById(id, session.organizationId)
 
   if (!execution) {
     return (
@@ -36,6 +48,8 @@ export default async function ExecutionPage({ params }: Props) {
   }
 
   const hasAnyMissingReasoning = execution.steps.some(s => !s.reasoning)
+  const funnel = buildCandidateFunnel(execution)
+  const lineage = entity ? traceEntity(execution, entity) : undefined
   const totalDuration = execution.endedAt
     ? new Date(execution.endedAt).getTime() - new Date(execution.startedAt).getTime()
     : null
@@ -45,10 +59,14 @@ export default async function ExecutionPage({ params }: Props) {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
-      <ExecutionReasoningTrigger
-        executionId={execution.executionId}
-        hasAnyMissingReasoning={hasAnyMissingReasoning}
-      />
+      {/* Generating reasoning spends the server's OpenAI key, so only admins trigger it */}
+      {hasRole(session.role, 'admin') && (
+        <ExecutionReasoningTrigger
+          executionId={execution.executionId}
+          hasAnyMissingReasoning={hasAnyMissingReasoning}
+        />
+      )}
+      <RunningExecutionRefresher isRunning={!execution.endedAt} />
 
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
@@ -74,6 +92,12 @@ export default async function ExecutionPage({ params }: Props) {
               </div>
               <p className="text-sm text-gray-500 mt-1">Started {new Date(execution.startedAt).toLocaleString()}</p>
             </div>
+            <Link
+              href={`/compare?a=${encodeURIComponent(execution.executionId)}`}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+            >
+              Compare
+            </Link>
           </div>
         </div>
       </header>
@@ -147,14 +171,21 @@ export default async function ExecutionPage({ params }: Props) {
           </div>
         )}
 
+        {/* Candidate Funnel (needs at least two steps with counts to be useful) */}
+        {funnel.length >= 2 && <CandidateFunnel stages={funnel} />}
+
+        {/* Entity Lineage */}
+        <EntityLineagePanel entity={entity} lineage={lineage} />
+
         {/* Steps */}
         <div className="mb-8">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Pipeline Steps</h2>
           <div className="space-y-4">
-            {execution.steps.map((step, index) => (
-              <StepCard key={index} step={step} index={index}>
+            {flattenStepTree(execution.steps).map(({ step, depth }, index) => (
+              <StepCard key={step.id ?? index} step={step} index={index} depth={depth}>
                 <StepReasoning
                   executionId={execution.executionId}
+                  stepId={step.id!}
                   stepName={step.name}
                   initialReasoning={step.reasoning}
                 />
@@ -0,0 +1,44 @@
+import { safeRedirectPath } from '@/lib/redirects'
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+
+type Props = {
+  searchParams: Promise<{ token?: string; next?: string }>
+}
+
+/**
+ * Where emailed sign-in links land. Opening the page doesn't use the link:
+ * the button posts the token to /api/auth/magic-link/verify, so mail
+ * scanners that prefetch links leave it working.
+ */
+export default async function ConfirmLoginPage({ searchParams }: Props) {
+  const { token, next } = await searchParams
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full bg-white p-8 rounded-lg shadow">
+        <h1 className="text-2xl font-bold mb-2">Sign in to X-Ray</h1>
+
+        {token ? (
+          <form method="post" action="/api/auth/magic-link/verify">
+            <input type="hidden" name="token" value={token} />
+            <input type="hidden" name="next" value={safeRedirectPath(next)} />
+            <p className="text-sm text-gray-600 mb-6">Continue to the dashboard with this sign-in link.</p>
+            <button
+              type="submit"
+              className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700"
+            >
+              Sign in
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-600">
+            This sign-in link is incomplete.{' '}
+            <a href="/login" className="text-blue-600 hover:underline">Request a new one</a>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { redirect } from 'next/navigation'
+import { getCurrentSession, LOGIN_LINK_TTL_MS } from '@/lib/sessions'
+import { safeRedirectPath } from '@/lib/redirects'
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+
+type Props = {
+  searchParams: Promise<{ next?: string; error?: string; sent?: string }>
+}
+
+const inputClass = 'w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+/**
+ * Dashboard sign-in, with an emailed link (/api/auth/magic-link) or an API
+ * key (/api/auth/session, which opens the key's organization)
+ */
+export default async function LoginPage({ searchParams }: Props) {
+  const { next, error, sent } = await searchParams
+  const target = safeRedirectPath(next)
+
+  if (await getCurrentSession()) {
+    redirect(target)
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full bg-white p-8 rounded-lg shadow">
+        <h1 className="text-2xl font-bold mb-2">Sign in</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          We&apos;ll email you a link to sign in.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {sent && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded text-green-800 text-sm">
+            If that email has an account, a sign-in link is on its way. It expires in {LOGIN_LINK_TTL_MS / 60000} minutes.
+          </div>
+        )}
+
+        <form method="post" action="/api/auth/magic-link">
+          <input type="hidden" name="next" value={target} />
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2" htmlFor="email">Email</label>
+            <input
+              id="email"
+              type="email"
+              name="email"
+              required
+              className={inputClass}
+              placeholder="you@company.com"
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700"
+          >
+            Email me a sign-in link
+          </button>
+        </form>
+
+        <details className="mt-6 text-sm">
+          <summary className="cursor-pointer text-gray-600">Sign in with an API key instead</summary>
+          <form method="post" action="/api/auth/session" className="mt-3">
+            <input type="hidden" name="next" value={target} />
+            <p className="text-xs text-gray-500 mb-2">
+              Any active key with the read scope. The dashboard opens the key&apos;s organization.
+            </p>
+            <input
+              type="password"
+              name="apiKey"
+              required
+              autoComplete="off"
+              aria-label="API key"
+              className={`${inputClass} font-mono mb-3`}
+              placeholder="xray_..."
+            />
+            <button
+              type="submit"
+              className="w-full bg-gray-100 text-gray-800 py-2 rounded hover:bg-gray-200"
+            >
+              Sign in with key
+            </button>
+          </form>
+        </details>
+
+        <p className="mt-4 text-sm text-gray-600 text-center">
+          No account yet?{' '}
+          <a href="/signup" className="text-blue-600 hover:underline">
+            Create one
+          </a>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import Link from "next/link"
+import { cookies } from "next/headers"
+import { ExecutionMetrics, getMetrics, listPipelines } from "@/lib/storage"
+import { parseMetricsQuery } from "@/lib/metricsQuery"
+import { PROJECT_COOKIE } from "@/lib/projects"
+import { requireSession } from "@/lib/sessions"
+import VolumeChart from "@/app/components/VolumeChart"
+import StepLatencyTable from "@/app/components/StepLatencyTable"
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white'
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1'
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '-'
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+export default async function MetricsPage({ searchParams }: Props) {
+  const session = await requireSession('/metrics')
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") params.set(key, value)
+  }
+  // Default to the project picked in the dashboard's project switcher
+  const currentProject = (await cookies()).get(PROJECT_COOKIE)?.value
+  if (!params.get('projectId') && currentProject) params.set('projectId', currentProject)
+  const value = (key: string) => params.get(key) ?? ''
+
+  const parsed = parseMetricsQuery(params)
+  const pipelines = await listPipelines(session.organizationId)
+
+  let metrics: ExecutionMetrics | undefined
+  let error = parsed.error ?? null
+  if (parsed.query) {
+    try {
+      metrics = await getMetrics(parsed.query, session.organizationId)
+    } catch (err: any) {
+      error = err.message || 'Failed to compute metrics'
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">Metrics</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {parsed.query
+                  ? `${parsed.query.from.toLocaleString()} – ${parsed.query.to.toLocaleString()}`
+                  : 'Step latency, error rates and execution volume'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Filters */}
+        <form method="get" className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div>
+              <label className={labelClass} htmlFor="from">From</label>
+              <input id="from" name="from" type="datetime-local" defaultValue={value('from')} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="to">To</label>
+              <input id="to" name="to" type="datetime-local" defaultValue={value('to')} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="bucket">Per</label>
+              <select id="bucket" name="bucket" defaultValue={value('bucket')} className={inputClass}>
+                <option value="">Auto</option>
+                <option value="hour">Hour</option>
+                <option value="day">Day</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="projectId">Project</label>
+              <input id="projectId" name="projectId" defaultValue={value('projectId')} placeholder="All projects" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="pipeline">Pipeline</label>
+              <select id="pipeline" name="pipeline" defaultValue={value('pipeline')} className={inputClass}>
+                <option value="">All pipelines</option>
+                {pipelines.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div className="flex items-end gap-2">
+              <button
+                type="submit"
+                className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+              >
+                Apply
+              </button>
+              <Link
+                href="/metrics"
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Clear
+              </Link>
+            </div>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {metrics && parsed.query && (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6 mb-8">
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Executions</p>
+                <p className="text-3xl font-bold text-gray-900">{metrics.totals.executions.toLocaleString()}</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Error Rate</p>
+                <p className={`text-3xl font-bold ${metrics.totals.failed > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {(metrics.totals.errorRate * 100).toFixed(1)}%
+                </p>
+                <p className="text-sm text-gray-500 mt-1">{metrics.totals.failed} failed</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">p50 Duration</p>
+                <p className="text-3xl font-bold text-gray-900">{formatDuration(metrics.totals.p50)}</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">p95 Duration</p>
+                <p className="text-3xl font-bold text-gray-900">{formatDuration(metrics.totals.p95)}</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">p99 Duration</p>
+                <p className="text-3xl font-bold text-gray-900">{formatDuration(metrics.totals.p99)}</p>
+              </div>
+            </div>
+
+            <VolumeChart points={metrics.volume} bucket={parsed.query.bucket} />
+
+            {metrics.steps.length > 0
+              ? <StepLatencyTable steps={metrics.steps} />
+              : <p className="text-sm text-gray-500">No steps were recorded in this window.</p>}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
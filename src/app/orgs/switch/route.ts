@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getOrganization, getMemberRole } from '@/lib/organizations'
+import { PROJECT_COOKIE } from '@/lib/projects'
+import { getCurrentSession, setSessionOrganization } from '@/lib/sessions'
+import { safeRedirectPath } from '@/lib/redirects'
+
+/**
+ * Dashboard organization switcher. Form fields: organization (a slug the
+ * signed-in user is a member of) and redirect (the page to return to).
+ */
+export async function POST(request: Request) {
+  const form = await request.formData()
+  const slug = String(form.get('organization') ?? '').trim()
+  const target = safeRedirectPath(form.get('redirect'))
+
+  const session = await getCurrentSession()
+  if (!session) {
+    return NextResponse.redirect(new URL(`/login?next=${encodeURIComponent(target)}`, request.url), 303)
+  }
+
+  const response = NextResponse.redirect(new URL(target, request.url), 303)
+
+  const organization = slug ? await getOrganization(slug) : null
+  if (organization && organization.id !== session.organizationId && await getMemberRole(organization.id, session.userId)) {
+    await setSessionOrganization(session.sessionId, organization.id)
+    // Project slugs belong to the previous organization
+    response.cookies.delete(PROJECT_COOKIE)
+  }
+  return response
+}
@@ -1,22 +1,62 @@
 import Link from "next/link"
-import { getExecutions } from "@/lib/storage"
+import { cookies } from "next/headers"
+import { ExecutionListQuery, getExecutionStats, listExecutions } from "@/lib/storage"
+import { parseExecutionListQuery } from "@/lib/executionQuery"
+import { listProjectSlugs, PROJECT_COOKIE } from "@/lib/projects"
+import { requireSession } from "@/lib/sessions"
+import { getUserOrganizations } from "@/lib/organizations"
 import ExecutionCard from "@/app/components/ExecutionCard"
+import ExecutionFilters from "@/app/components/ExecutionFilters"
+import RunningExecutionRefresher from "@/app/components/RunningExecutionRefresher"
+import ProjectSwitcher from "@/app/components/ProjectSwitcher"
+import OrganizationSwitcher from "@/app/components/OrganizationSwitcher"
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
-export default async function HomePage() {
-  const executions = (await getExecutions()).filter(
-    e => e.metadata?.domain !== "movie-recommendation"
-  )
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function HomePage({ searchParams }: Props) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") params.set(key, value)
+  }
+  const session = await requireSession('/')
+
+  // An explicit projectId filter wins over the project switcher
+  const currentProject = (await cookies()).get(PROJECT_COOKIE)?.value || undefined
+  const parsed = parseExecutionListQuery(params)
+  const query: ExecutionListQuery = {
+    ...parsed.query,
+    projectId: parsed.query?.projectId ?? currentProject,
+    userId: params.get("ingestedBy") === "me" ? session.userId : undefined,
+    excludeMetadata: { domain: "movie-recommendation" },
+  }
 
-  const totalExecutions = executions.length
-  const successfulExecutions = executions.filter(e => e.endedAt && !e.steps.some(s => s.error)).length
-  const failedExecutions = executions.filter(e => e.steps.some(s => s.error)).length
+  const [{ executions, nextCursor }, stats, projects, organizations] = await Promise.all([
+    listExecutions(query, session.organizationId),
+    getExecutionStats(query, session.organizationId),
+    listProjectSlugs(session.organizationId),
+    getUserOrganizations(session.userId),
+  ])
+
+  const totalExecutions = stats.total
+  const successfulExecutions = stats.successful
+  const failedExecutions = stats.failed
+  const hasRunningExecutions = executions.some(e => !e.endedAt)
+
+  const nextPageParams = new URLSearchParams(params)
+  if (nextCursor) nextPageParams.set("cursor", nextCursor)
+  const firstPageParams = new URLSearchParams(params)
+  firstPageParams.delete("cursor")
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      <RunningExecutionRefresher isRunning={hasRunningExecutions} />
+
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
         <div className="max-w-7xl mx-auto px-6 py-4">
@@ -29,16 +69,46 @@ export default async function HomePage() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-gray-900">X-Ray Dashboard</h1>
-                <p className="text-sm text-gray-500">AI-Powered Pipeline Observability</p>
+                <p className="text-sm text-gray-500">
+                  AI-Powered Pipeline Observability · {session.email} ({session.role})
+                </p>
               </div>
             </div>
 
             <nav className="flex items-center gap-2">
+              {organizations.length > 1 && (
+                <OrganizationSwitcher organizations={organizations} current={session.organizationSlug} redirect="/" />
+              )}
+              <ProjectSwitcher projects={projects} current={currentProject} redirect="/" />
+              <Link
+                href="/projects"
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              >
+                Projects
+              </Link>
+              <Link
+                href="/search"
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              >
+                Search
+              </Link>
               <Link
-                href="/signup"
-                className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+                href="/metrics"
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              >
+                Metrics
+              </Link>
+              <Link
+                href="/compare"
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
               >
-                Create Account
+                Compare
+              </Link>
+              <Link
+                href="/regressions"
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              >
+                Regressions
               </Link>
               <Link
                 href="/api-key"
@@ -46,6 +116,14 @@ export default async function HomePage() {
               >
                 API Keys
               </Link>
+              <form method="post" action="/api/auth/logout">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                  Sign Out
+                </button>
+              </form>
             </nav>
           </div>
         </div>
@@ -97,6 +175,15 @@ export default async function HomePage() {
           </div>
         </div>
 
+        {/* Filters */}
+        <ExecutionFilters params={params} />
+
+        {parsed.error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Ignoring filters: {parsed.error}
+          </div>
+        )}
+
         {/* Executions List */}
         <div className="mb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent Executions</h2>
@@ -106,8 +193,17 @@ export default async function HomePage() {
               <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
               </svg>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No executions yet</h3>
-              <p className="text-gray-500">Run a pipeline to see execution details here</p>
+              {params.size > 0 ? (
+                <>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No matching executions</h3>
+                  <p className="text-gray-500">Try widening or clearing the filters</p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No executions yet</h3>
+                  <p className="text-gray-500">Run a pipeline to see execution details here</p>
+                </>
+              )}
             </div>
           ) : (
             <div className="grid grid-cols-1 gap-4">
@@ -116,6 +212,28 @@ export default async function HomePage() {
               ))}
             </div>
           )}
+
+          {/* Pagination */}
+          {(params.has("cursor") || nextCursor) && (
+            <div className="flex justify-between mt-6">
+              {params.has("cursor") ? (
+                <Link
+                  href={`/?${firstPageParams}`}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                  ← First page
+                </Link>
+              ) : <span />}
+              {nextCursor && (
+                <Link
+                  href={`/?${nextPageParams}`}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+                >
+                  Next page →
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,90 @@
+import Link from "next/link"
+import { cookies } from "next/headers"
+import { getProjectStats, ProjectStats } from "@/lib/storage"
+import { listProjectSlugs, PROJECT_COOKIE } from "@/lib/projects"
+import { requireSession } from "@/lib/sessions"
+import ProjectSwitcher from "@/app/components/ProjectSwitcher"
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export default async function ProjectsPage() {
+  const session = await requireSession('/projects')
+  const currentProject = (await cookies()).get(PROJECT_COOKIE)?.value || undefined
+  const [slugs, stats] = await Promise.all([
+    listProjectSlugs(session.organizationId),
+    getProjectStats(session.organizationId),
+  ])
+
+  // Projects without any executions yet still get a row
+  const statsBySlug = new Map(stats.map(row => [row.projectId, row]))
+  const rows: ProjectStats[] = [
+    ...stats,
+    ...slugs.filter(slug => !statsBySlug.has(slug)).map(slug => ({ projectId: slug, total: 0, failed: 0 })),
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">Projects</h1>
+              <p className="text-sm text-gray-500 mt-1">Executions grouped by the project they were ingested into</p>
+            </div>
+            <ProjectSwitcher projects={slugs} current={currentProject} redirect="/projects" />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {rows.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+            <p className="text-gray-600">No projects yet. Create one with POST /api/projects.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600 uppercase">
+                <tr>
+                  <th className="px-6 py-3">Project</th>
+                  <th className="px-6 py-3 text-right">Executions</th>
+                  <th className="px-6 py-3 text-right">Failed</th>
+                  <th className="px-6 py-3">Last Run</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => (
+                  <tr key={row.projectId} className={row.projectId === currentProject ? 'bg-blue-50' : ''}>
+                    <td className="px-6 py-3">
+                      <Link
+                        href={`/?projectId=${encodeURIComponent(row.projectId)}`}
+                        className="font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        {row.projectId}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-3 text-right text-gray-900">{row.total.toLocaleString()}</td>
+                    <td className={`px-6 py-3 text-right ${row.failed > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {row.failed.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 text-gray-500">
+                      {row.lastStartedAt ? new Date(row.lastStartedAt).toLocaleString() : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { PROJECT_COOKIE } from '@/lib/projects'
+import { safeRedirectPath } from '@/lib/redirects'
+
+/**
+ * Dashboard project switcher. Form fields: project (a slug, or empty for
+ * all projects) and redirect (the page to return to).
+ */
+export async function POST(request: Request) {
+  const form = await request.formData()
+  const project = String(form.get('project') ?? '').trim()
+  const target = safeRedirectPath(form.get('redirect'))
+  const response = NextResponse.redirect(new URL(target, request.url), 303)
+
+  if (project) {
+    response.cookies.set(PROJECT_COOKIE, project, { path: '/', sameSite: 'lax', maxAge: 60 * 60 * 24 * 365 })
+  } else {
+    response.cookies.delete(PROJECT_COOKIE)
+  }
+  return response
+}
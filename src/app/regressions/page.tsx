@@ -0,0 +1,278 @@
+import Link from "next/link"
+import { getPipelineExecutions } from "@/lib/storage"
+import { requireSession } from "@/lib/sessions"
+import {
+  DEFAULT_MATCH_KEY,
+  DEFAULT_REGRESSION_THRESHOLDS,
+  detectRegressions,
+  parseRegressionQuery,
+  PassRate,
+  RegressionReport,
+} from "@/lib/regression"
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white'
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1'
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '-'
+  return Math.abs(ms) < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatRate(rate?: PassRate) {
+  if (rate?.rate === undefined) return '-'
+  return `${(rate.rate * 100).toFixed(1)}% (${rate.passed}/${rate.evaluated})`
+}
+
+function formatShift(value?: number) {
+  if (value === undefined) return '-'
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`
+}
+
+export default async function RegressionsPage({ searchParams }: Props) {
+  const session = await requireSession('/regressions')
+  const raw = await searchParams
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === 'string') params.set(key, value)
+  }
+  const value = (key: string) => params.get(key) ?? ''
+
+  let report: RegressionReport | undefined
+  let error: string | null = null
+  if (params.get('baseline') || params.get('candidate')) {
+    const parsed = parseRegressionQuery(params)
+    if (parsed.error !== undefined) {
+      error = parsed.error
+    } else {
+      try {
+        const [baseline, candidate] = await Promise.all([
+          getPipelineExecutions(parsed.baseline, session.organizationId),
+          getPipelineExecutions(parsed.candidate, session.organizationId),
+        ])
+        report = detectRegressions(parsed.baseline, baseline, parsed.candidate, candidate, parsed.options)
+      } catch (err: any) {
+        error = err.message || 'Failed to detect regressions'
+      }
+    }
+  }
+
+  const jsonHref = `/api/regressions?${params.toString()}`
+  const thresholds = report?.thresholds ?? DEFAULT_REGRESSION_THRESHOLDS
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">Regression Check</h1>
+              <p className="text-sm text-gray-500 mt-1">Compare two pipeline versions over the same inputs</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Versions and Thresholds */}
+        <form method="get" className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass} htmlFor="baseline">Baseline Pipeline</label>
+              <input id="baseline" name="baseline" defaultValue={value('baseline')} placeholder="competitor-selection-v1" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="candidate">Candidate Pipeline</label>
+              <input id="candidate" name="candidate" defaultValue={value('candidate')} placeholder="competitor-selection-v2" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="matchKey">Match Inputs On</label>
+              <input id="matchKey" name="matchKey" defaultValue={value('matchKey')} placeholder={DEFAULT_MATCH_KEY} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="minEvaluations">Min Evaluations</label>
+              <input id="minEvaluations" name="minEvaluations" type="number" min={0} defaultValue={value('minEvaluations')} placeholder={String(thresholds.minEvaluations)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="maxSelectionChangeRate">Max Selection Change Rate</label>
+              <input id="maxSelectionChangeRate" name="maxSelectionChangeRate" type="number" min={0} step="any" defaultValue={value('maxSelectionChangeRate')} placeholder={String(thresholds.maxSelectionChangeRate)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="maxPassRateShift">Max Pass Rate Shift</label>
+              <input id="maxPassRateShift" name="maxPassRateShift" type="number" min={0} step="any" defaultValue={value('maxPassRateShift')} placeholder={String(thresholds.maxPassRateShift)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="maxDurationIncrease">Max Duration Increase</label>
+              <input id="maxDurationIncrease" name="maxDurationIncrease" type="number" min={0} step="any" defaultValue={value('maxDurationIncrease')} placeholder={String(thresholds.maxDurationIncrease)} className={inputClass} />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                className="w-full px-3 py-1.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+              >
+                Run Check
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {report && (
+          <>
+            {/* Verdict */}
+            <div className={`rounded-xl border-2 p-6 mb-8 ${report.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className={`text-lg font-semibold ${report.passed ? 'text-green-800' : 'text-red-800'}`}>
+                  {report.passed
+                    ? `No regressions in ${report.candidate}`
+                    : `${report.regressions.length} regression${report.regressions.length === 1 ? '' : 's'} in ${report.candidate}`}
+                </h2>
+                <a href={jsonHref} className="text-sm text-blue-600 hover:text-blue-700 font-mono">JSON report</a>
+              </div>
+              {report.regressions.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm text-red-700 list-disc list-inside">
+                  {report.regressions.map((r, i) => <li key={i}>{r.message}</li>)}
+                </ul>
+              )}
+            </div>
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Matched Inputs</p>
+                <p className="text-3xl font-bold text-gray-900">{report.matched}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {report.unmatched.baseline} baseline only · {report.unmatched.candidate} candidate only
+                </p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Selection Changed</p>
+                <p className="text-3xl font-bold text-gray-900">{report.selection.changed}</p>
+                <p className="text-sm text-gray-500 mt-1">{report.selection.rate !== undefined ? `${(report.selection.rate * 100).toFixed(1)}%` : '-'} of matched inputs</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">Median Duration</p>
+                <p className="text-3xl font-bold text-gray-900">{formatDuration(report.durations.candidate.p50)}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  was {formatDuration(report.durations.baseline.p50)} ({formatShift(report.durations.p50Change)})
+                </p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <p className="text-sm font-medium text-gray-600 mb-1">p95 Duration</p>
+                <p className="text-3xl font-bold text-gray-900">{formatDuration(report.durations.candidate.p95)}</p>
+                <p className="text-sm text-gray-500 mt-1">was {formatDuration(report.durations.baseline.p95)}</p>
+              </div>
+            </div>
+
+            {/* Filter Pass Rates */}
+            {report.filters.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Filter Pass Rates</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 font-medium">Step</th>
+                      <th className="py-2 font-medium">Filter</th>
+                      <th className="py-2 font-medium text-right">Baseline</th>
+                      <th className="py-2 font-medium text-right">Candidate</th>
+                      <th className="py-2 font-medium text-right">Shift</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.filters.map(f => {
+                      const flagged = report.regressions.some(r => r.kind === 'pass_rate' && r.stepName === f.stepName && r.filter === f.filter)
+                      return (
+                        <tr key={`${f.stepName}/${f.filter}`} className={`border-b border-gray-100 ${flagged ? 'bg-red-50' : ''}`}>
+                          <td className="py-2 text-gray-900">{formatName(f.stepName)}</td>
+                          <td className="py-2 font-mono text-gray-700">{f.filter}</td>
+                          <td className="py-2 text-right text-gray-700">{formatRate(f.baseline)}</td>
+                          <td className="py-2 text-right text-gray-700">{formatRate(f.candidate)}</td>
+                          <td className={`py-2 text-right font-medium ${flagged ? 'text-red-700' : 'text-gray-900'}`}>{formatShift(f.shift)}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Step Durations */}
+            {report.durations.steps.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Step Durations (median)</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 font-medium">Step</th>
+                      <th className="py-2 font-medium text-right">Baseline</th>
+                      <th className="py-2 font-medium text-right">Candidate</th>
+                      <th className="py-2 font-medium text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.durations.steps.map(step => (
+                      <tr key={step.stepName} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-900">{formatName(step.stepName)}</td>
+                        <td className="py-2 text-right text-gray-700">{formatDuration(step.baseline.p50)}</td>
+                        <td className="py-2 text-right text-gray-700">{formatDuration(step.candidate.p50)}</td>
+                        <td className={`py-2 text-right font-medium ${(step.p50Change ?? 0) > thresholds.maxDurationIncrease ? 'text-red-700' : 'text-gray-900'}`}>
+                          {formatShift(step.p50Change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Selection Changes */}
+            {report.selection.changes.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Selection Changes</h3>
+                <div className="space-y-2">
+                  {report.selection.changes.map(change => (
+                    <div key={change.key} className="flex flex-wrap items-center gap-3 text-sm border-b border-gray-100 pb-2">
+                      <span className="font-mono font-medium text-gray-900 w-40">{change.key}</span>
+                      {change.removed.map(id => (
+                        <span key={`removed-${id}`} className="px-2 py-0.5 rounded-md text-xs font-mono bg-red-100 text-red-700 line-through">{id}</span>
+                      ))}
+                      {change.added.map(id => (
+                        <span key={`added-${id}`} className="px-2 py-0.5 rounded-md text-xs font-mono bg-green-100 text-green-700">+ {id}</span>
+                      ))}
+                      <Link
+                        href={`/compare?a=${encodeURIComponent(change.baselineExecutionId)}&b=${encodeURIComponent(change.candidateExecutionId)}`}
+                        className="ml-auto text-blue-600 hover:text-blue-700"
+                      >
+                        Compare runs
+                      </Link>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
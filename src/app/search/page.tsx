@@ -0,0 +1,147 @@
+import Link from "next/link"
+import { searchSteps, StepSearchHit } from "@/lib/storage"
+import { requireSession } from "@/lib/sessions"
+import { SEARCH_FIELDS, SearchField, SearchMatch } from "@/lib/search"
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Props = {
+  searchParams: Promise<{ q?: string; field?: string }>
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  error: "Error",
+  reasoning: "Reasoning",
+  input: "Input",
+  output: "Output",
+}
+
+function formatName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function HighlightedText({ match }: { match: SearchMatch }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  match.highlights.forEach(([start, end], i) => {
+    parts.push(match.text.slice(cursor, start))
+    parts.push(<mark key={i} className="bg-yellow-200 text-gray-900 rounded px-0.5">{match.text.slice(start, end)}</mark>)
+    cursor = end
+  })
+  parts.push(match.text.slice(cursor))
+  return <>{parts}</>
+}
+
+export default async function SearchPage({ searchParams }: Props) {
+  const session = await requireSession('/search')
+  const { q, field } = await searchParams
+  const text = q?.trim()
+  const fields = SEARCH_FIELDS.includes(field as SearchField) ? [field as SearchField] : undefined
+
+  let results: StepSearchHit[] = []
+  let error: string | null = null
+  if (text) {
+    try {
+      results = await searchSteps({ text, fields }, session.organizationId)
+    } catch (err: any) {
+      error = err.message || "Search failed"
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">Search Steps</h1>
+              <p className="text-sm text-gray-500 mt-1">Full-text search over step errors, reasoning, inputs and outputs</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {/* Search Form */}
+        <form method="get" className="bg-white rounded-xl border border-gray-200 p-5 mb-8 flex flex-wrap gap-3">
+          <input
+            type="text"
+            name="q"
+            defaultValue={text}
+            placeholder='e.g. timeout, minRating, "rate limit" -retry'
+            className="flex-1 min-w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900"
+          />
+          <select
+            name="field"
+            defaultValue={fields?.[0] ?? ""}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+          >
+            <option value="">All fields</option>
+            {SEARCH_FIELDS.map(f => (
+              <option key={f} value={f}>{FIELD_LABELS[f]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {text && !error && (
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {results.length === 0 ? "No matching steps" : `${results.length} matching step${results.length === 1 ? "" : "s"}`}
+          </h2>
+        )}
+
+        {/* Results */}
+        <div className="space-y-4">
+          {results.map(hit => (
+            <div key={`${hit.executionId}/${hit.stepId}`} className="bg-white rounded-xl border border-gray-200 p-5">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{formatName(hit.stepName)}</h3>
+                  <Link
+                    href={`/execution/${encodeURIComponent(hit.executionId)}`}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    {hit.executionId}
+                  </Link>
+                  {hit.pipeline && <span className="text-sm text-gray-500"> · {hit.pipeline}</span>}
+                </div>
+                <span className="text-sm text-gray-500">{new Date(hit.executionStartedAt).toLocaleString()}</span>
+              </div>
+
+              <div className="space-y-2">
+                {hit.matches.map((match, i) => (
+                  <div key={i} className="bg-gray-50 rounded-lg border border-gray-200 px-3 py-2">
+                    <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-1">
+                      {FIELD_LABELS[match.field]}
+                      {match.path && <span className="font-mono normal-case tracking-normal text-gray-500"> · {match.path}</span>}
+                    </div>
+                    <pre className="text-sm text-gray-800 font-mono whitespace-pre-wrap break-words">
+                      <HighlightedText match={match} />
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
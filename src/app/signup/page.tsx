@@ -90,8 +90,8 @@ export default function SignupPage() {
 
         <p className="mt-4 text-sm text-gray-600 text-center">
           Already have an account?{' '}
-          <a href="/api-key" className="text-blue-600 hover:underline">
-            View your API keys
+          <a href="/login" className="text-blue-600 hover:underline">
+            Sign in
           </a>
         </p>
       </div>
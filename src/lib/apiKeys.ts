@@ -0,0 +1,144 @@
+// lib/apiKeys.ts - API key scopes, status and creation options
+// Pure helpers shared by the key routes and the /api-key page
+
+/**
+ * What a key may be used for:
+ *   ingest  send executions and run reasoning
+ *   read    list, search and fetch executions, projects and metrics
+ *   admin   everything, including managing keys, projects and members
+ * A key is still limited by its user's role in the organization.
+ */
+export const KEY_SCOPES = ['ingest', 'read', 'admin'] as const
+export type KeyScope = (typeof KEY_SCOPES)[number]
+
+/** Scopes of keys created without any */
+export const DEFAULT_KEY_SCOPES: KeyScope[] = ['ingest', 'read']
+
+/** How long a rotated key keeps working by default, and at most */
+export const DEFAULT_ROTATION_GRACE_HOURS = 24
+export const MAX_ROTATION_GRACE_HOURS = 30 * 24
+
+/** Longest lifetime that can be given as expiresInDays */
+const MAX_EXPIRY_DAYS = 365 * 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isKeyScope(value: unknown): value is KeyScope {
+  return typeof value === 'string' && (KEY_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a key's scopes allow scope (admin allows everything)
+ */
+export function hasScope(scopes: readonly string[], scope: KeyScope): boolean {
+  return scopes.includes('admin') || scopes.includes(scope)
+}
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked'
+
+/**
+ * Whether a key can still be used
+ */
+export function apiKeyStatus(key: { expiresAt?: Date | string | null; revokedAt?: Date | string | null }, now = new Date()): ApiKeyStatus {
+  if (key.revokedAt) return 'revoked'
+  if (key.expiresAt && new Date(key.expiresAt) <= now) return 'expired'
+  return 'active'
+}
+
+export interface ApiKeyOptions {
+  name?: string
+  scopes: KeyScope[]
+  expiresAt?: Date
+}
+
+export type ParsedApiKeyOptions =
+  | { options: ApiKeyOptions; error?: undefined }
+  | { options?: undefined; error: string }
+
+/**
+ * Parse the options of a key being created. Body fields:
+ *   name            label shown in key lists
+ *   scopes          array of ingest | read | admin (default: ingest, read)
+ *   expiresAt       ISO timestamp, or
+ *   expiresInDays   lifetime in days (default: never expires)
+ */
+export function parseApiKeyOptions(body: Record<string, any>, now = new Date()): ParsedApiKeyOptions {
+  const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : undefined
+
+  let scopes = DEFAULT_KEY_SCOPES
+  if (body.scopes !== undefined) {
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isKeyScope)) {
+      return { error: `scopes must be a non-empty array of ${KEY_SCOPES.join(', ')}` }
+    }
+    scopes = Array.from(new Set(body.scopes as KeyScope[]))
+  }
+
+  let expiresAt: Date | undefined
+  if (body.expiresAt !== undefined && body.expiresAt !== null && body.expiresAt !== '') {
+    expiresAt = new Date(body.expiresAt)
+    if (isNaN(expiresAt.getTime())) {
+      return { error: 'expiresAt must be an ISO 8601 timestamp' }
+    }
+  } else if (body.expiresInDays !== undefined && body.expiresInDays !== null && body.expiresInDays !== '') {
+    const days = Number(body.expiresInDays)
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+      return { error: `expiresInDays must be a number between 0 and ${MAX_EXPIRY_DAYS}` }
+    }
+    expiresAt = new Date(now.getTime() + days * DAY_MS)
+  }
+  if (expiresAt && expiresAt <= now) {
+    return { error: 'Expiry must be in the future' }
+  }
+
+  return { options: { name, scopes, expiresAt } }
+}
+
+/**
+ * Parse a rotation's grace period: how many hours the old key keeps working
+ */
+export function parseGracePeriodHours(value: unknown): { hours?: number; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return { hours: DEFAULT_ROTATION_GRACE_HOURS }
+  }
+  const hours = Number(value)
+  if (!Number.isFinite(hours) || hours < 0 || hours > MAX_ROTATION_GRACE_HOURS) {
+    return { error: `gracePeriodHours must be a number between 0 and ${MAX_ROTATION_GRACE_HOURS}` }
+  }
+  return { hours }
+}
+
+interface ApiKeyRecord {
+  id: string
+  keyPrefix: string
+  name: string | null
+  projectId: string | null
+  scopes: string[]
+  expiresAt: Date | null
+  revokedAt: Date | null
+  rotatedFromId: string | null
+  lastUsedAt: Date | null
+  createdAt: Date
+  organization?: { slug: string }
+}
+
+/**
+ * A key as shown in responses: never the key itself (or its hash), only its prefix
+ */
+export function describeApiKey(record: ApiKeyRecord, now = new Date()) {
+  return {
+    id: record.id,
+    name: record.name,
+    preview: `${record.keyPrefix}…`,
+    organization: record.organization?.slug,
+    projectId: record.projectId,
+    scopes: record.scopes,
+    status: apiKeyStatus(record, now),
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+    rotatedFromId: record.rotatedFromId,
+    lastUsedAt: record.lastUsedAt,
+    createdAt: record.createdAt,
+  }
+}
+
+export type ApiKeyInfo = ReturnType<typeof describeApiKey>
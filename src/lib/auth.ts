@@ -1,35 +1,112 @@
 import { prisma } from './prisma'
-import { randomBytes } from 'crypto'
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { getMemberRole, Role } from './organizations'
+import { apiKeyStatus, DEFAULT_KEY_SCOPES, KeyScope } from './apiKeys'
 
 /**
- * Validate API key and return userId
- * Returns null if invalid
+ * Who an API key belongs to: a user acting within one organization, with
+ * their role there and the key's scopes. projectId is set for project-scoped keys.
  */
-export async function validateApiKey(apiKey: string): Promise<string | null> {
+export interface ApiKeyAuth {
+  userId: string
+  apiKeyId: string
+  organizationId: string
+  role: Role
+  scopes: KeyScope[]
+  projectId?: string
+}
+
+/** Characters of a key kept in plaintext as its prefix ("xray_" plus 8) */
+const KEY_PREFIX_LENGTH = 13
+
+/**
+ * SHA-256 (hex) of an API key - what is stored instead of the key.
+ * Keys are 32 random bytes, so an unsalted hash is enough.
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey, 'utf8').digest('hex')
+}
+
+/**
+ * The part of a key kept in plaintext, to show in key lists and find candidates
+ */
+export function apiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, KEY_PREFIX_LENGTH)
+}
+
+/**
+ * Validate API key and return its owner (and project, for scoped keys)
+ * Returns null if invalid, expired or revoked, or if its user has left the
+ * key's organization
+ */
+export async function authenticateApiKey(apiKey: string): Promise<ApiKeyAuth | null> {
   if (!apiKey || !apiKey.startsWith('xray_')) {
     return null
   }
 
-  const keyRecord = await prisma.apiKey.findUnique({
-    where: { key: apiKey },
-    select: { userId: true }
+  // Find keys by their plaintext prefix, then compare hashes in constant time
+  const hash = Buffer.from(hashApiKey(apiKey), 'hex')
+  const candidates = await prisma.apiKey.findMany({
+    where: { keyPrefix: apiKeyPrefix(apiKey) },
+    select: { id: true, keyHash: true, userId: true, organizationId: true, projectId: true, scopes: true, expiresAt: true, revokedAt: true }
   })
+  const keyRecord = candidates.find(candidate => {
+    const candidateHash = Buffer.from(candidate.keyHash, 'hex')
+    return candidateHash.length === hash.length && timingSafeEqual(candidateHash, hash)
+  })
+
+  if (!keyRecord || apiKeyStatus(keyRecord) !== 'active') {
+    return null
+  }
 
-  if (!keyRecord) {
+  const role = await getMemberRole(keyRecord.organizationId, keyRecord.userId)
+  if (!role) {
     return null
   }
 
   // Update last used timestamp (async, don't await)
   prisma.apiKey.update({
-    where: { key: apiKey },
+    where: { id: keyRecord.id },
     data: { lastUsedAt: new Date() }
   }).catch(() => {}) // Ignore failures
 
-  return keyRecord.userId
+  return {
+    userId: keyRecord.userId,
+    apiKeyId: keyRecord.id,
+    organizationId: keyRecord.organizationId,
+    role,
+    scopes: keyRecord.scopes as KeyScope[],
+    projectId: keyRecord.projectId ?? undefined
+  }
+}
+
+/**
+ * Validate API key and return userId
+ * Returns null if invalid
+ */
+export async function validateApiKey(apiKey: string): Promise<string | null> {
+  const auth = await authenticateApiKey(apiKey)
+  return auth?.userId ?? null
+}
+
+/**
+ * Generate a new raw API key
+ */
+export function generateApiKey(): string {
+  return 'xray_' + randomBytes(32).toString('hex')
+}
+
+/**
+ * Stored columns for a raw API key: its hash and display prefix
+ */
+function storedKey(apiKey: string) {
+  return { keyHash: hashApiKey(apiKey), keyPrefix: apiKeyPrefix(apiKey) }
 }
 
 /**
  * Create new user with API key
+ * Every user gets a personal organization (slug: their user ID) that they
+ * own, with a "default" project; the key belongs to that organization.
  */
 export async function createUser(email: string, name?: string) {
   // Check if user exists
@@ -41,29 +118,138 @@ export async function createUser(email: string, name?: string) {
     throw new Error('Email already exists')
   }
 
-  const user = await prisma.user.create({
-    data: { email, name }
-  })
+  const apiKey = generateApiKey()
 
-  const apiKey = 'xray_' + randomBytes(32).toString('hex')
+  const user = await prisma.$transaction(async tx => {
+    const user = await tx.user.create({
+      data: { email, name }
+    })
 
-  await prisma.apiKey.create({
-    data: {
-      key: apiKey,
-      userId: user.id,
-      name: 'Default Key'
-    }
+    const organization = await tx.organization.create({
+      data: {
+        slug: user.id,
+        name: name || email,
+        memberships: { create: { userId: user.id, role: 'owner' } },
+        projects: { create: { slug: 'default', name: 'Default' } }
+      }
+    })
+
+    await tx.apiKey.create({
+      data: {
+        ...storedKey(apiKey),
+        userId: user.id,
+        organizationId: organization.id,
+        name: 'Default Key',
+        scopes: ['admin']
+      }
+    })
+
+    return user
   })
 
   return { user, apiKey }
 }
 
 /**
- * Get user's API keys
+ * Get user's API keys, with the slug of each key's organization
  */
 export async function getUserApiKeys(userId: string) {
   return prisma.apiKey.findMany({
     where: { userId },
+    include: { organization: { select: { slug: true } } },
     orderBy: { createdAt: 'desc' }
   })
 }
+
+/**
+ * Get an API key record by ID
+ */
+export async function getApiKeyById(id: string) {
+  return prisma.apiKey.findUnique({
+    where: { id }
+  })
+}
+
+/**
+ * Create an API key for a user in one of their organizations, optionally
+ * scoped to one of its projects (executions ingested with it are tagged
+ * with that project)
+ */
+export async function createApiKey(
+  userId: string,
+  organizationId: string,
+  options: { name?: string; projectId?: string; scopes?: KeyScope[]; expiresAt?: Date } = {}
+) {
+  const apiKey = generateApiKey()
+
+  const record = await prisma.apiKey.create({
+    data: {
+      ...storedKey(apiKey),
+      userId,
+      organizationId,
+      projectId: options.projectId,
+      name: options.name,
+      scopes: options.scopes ?? DEFAULT_KEY_SCOPES,
+      expiresAt: options.expiresAt
+    }
+  })
+
+  return { apiKey, record }
+}
+
+/**
+ * Replace an API key with a new one with the same name, organization,
+ * project, scopes and lifetime. The old key keeps working for the grace
+ * period (never past its own expiry), so clients can switch over.
+ */
+export async function rotateApiKey(id: string, gracePeriodMs: number) {
+  const now = new Date()
+  const apiKey = generateApiKey()
+
+  return prisma.$transaction(async tx => {
+    const previous = await tx.apiKey.findUnique({
+      where: { id }
+    })
+
+    if (!previous || apiKeyStatus(previous, now) !== 'active') {
+      throw new Error('API key not found or no longer active')
+    }
+
+    const lifetime = previous.expiresAt ? previous.expiresAt.getTime() - previous.createdAt.getTime() : undefined
+    const record = await tx.apiKey.create({
+      data: {
+        ...storedKey(apiKey),
+        userId: previous.userId,
+        organizationId: previous.organizationId,
+        projectId: previous.projectId,
+        name: previous.name,
+        scopes: previous.scopes,
+        expiresAt: lifetime !== undefined ? new Date(now.getTime() + lifetime) : null,
+        rotatedFromId: previous.id
+      }
+    })
+
+    const graceEnd = new Date(now.getTime() + gracePeriodMs)
+    const updated = await tx.apiKey.update({
+      where: { id },
+      data: {
+        expiresAt: previous.expiresAt && previous.expiresAt < graceEnd ? previous.expiresAt : graceEnd
+      }
+    })
+
+    console.log(`[Auth] ✅ Rotated API key ${id} -> ${record.id}`)
+    return { apiKey, record, previous: updated }
+  })
+}
+
+/**
+ * Revoke an API key; it is rejected from now on
+ */
+export async function revokeApiKey(id: string) {
+  const record = await prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date() }
+  })
+  console.log(`[Auth] ✅ Revoked API key ${id}`)
+  return record
+}
@@ -1,11 +1,13 @@
-import { validateApiKey } from './auth'
+import { ApiKeyAuth, authenticateApiKey } from './auth'
+import { hasRole, Role } from './organizations'
+import { hasScope, KeyScope } from './apiKeys'
 import { NextResponse } from 'next/server'
 
 /**
- * Extract and validate userId from request headers
- * Returns userId or null if invalid
+ * Extract and validate the API key from request headers
+ * Returns its owner (and project, for scoped keys) or null if invalid
  */
-export async function getUserIdFromRequest(request: Request): Promise<string | null> {
+export async function getAuthFromRequest(request: Request): Promise<ApiKeyAuth | null> {
   // Check multiple header formats
   const apiKey =
     request.headers.get('x-api-key') ||
@@ -15,7 +17,16 @@ export async function getUserIdFromRequest(request: Request): Promise<string | n
     return null
   }
 
-  return await validateApiKey(apiKey)
+  return await authenticateApiKey(apiKey)
+}
+
+/**
+ * Extract and validate userId from request headers
+ * Returns userId or null if invalid
+ */
+export async function getUserIdFromRequest(request: Request): Promise<string | null> {
+  const auth = await getAuthFromRequest(request)
+  return auth?.userId ?? null
 }
 
 /**
@@ -37,3 +48,27 @@ export function forbiddenResponse(message = 'Access denied') {
     { status: 403 }
   )
 }
+
+
+/**
+ * Helper to return 403 response when the API key's role in its organization
+ * is below the one required
+ */
+export function roleRequiredResponse(role: Role) {
+  return forbiddenResponse(`This requires the ${role} role in your organization`)
+}
+
+/**
+ * Check that an API key may perform an action: its scopes must allow scope,
+ * and its user's role in the organization must be at least role.
+ * Returns the 403 response to send, or null if allowed.
+ */
+export function checkAccess(auth: ApiKeyAuth, scope: KeyScope, role: Role = 'viewer') {
+  if (!hasScope(auth.scopes, scope)) {
+    return forbiddenResponse(`This API key does not have the ${scope} scope`)
+  }
+  if (!hasRole(auth.role, role)) {
+    return roleRequiredResponse(role)
+  }
+  return null
+}
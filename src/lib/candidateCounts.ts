@@ -0,0 +1,117 @@
+// lib/candidateCounts.ts - How many candidates a step saw and kept
+// Count heuristics shared by numeric reasoning and the candidate funnel.
+// Pure functions, safe to use from client components.
+import { Step } from "@/xRay"
+
+/**
+ * Output/input keys read as candidate counts, tried in order. A key holding
+ * a number is used as-is; a key holding an array counts its items.
+ */
+export interface CountHeuristics {
+  evaluated: string[]          // Candidates a filter step looked at
+  passed: string[]             // Candidates that survived it
+  found: string[]              // Total matches reported by a search step
+  returned: string[]           // Candidates a search step actually fetched
+  items: string[]              // Candidate lists, when no explicit counts are given
+}
+
+/**
+ * Funnel settings for one pipeline (matched on metadata.pipeline)
+ */
+export interface PipelineFunnelConfig {
+  steps?: string[]             // Steps to chart, in order (default: every step with counts)
+  counts?: Partial<CountHeuristics>
+}
+
+export const DEFAULT_COUNT_HEURISTICS: CountHeuristics = {
+  evaluated: ["total_evaluated", "evaluated"],
+  passed: ["passed", "accepted", "remaining"],
+  found: ["total_results", "total_found", "total"],
+  returned: ["candidates_fetched", "candidates"],
+  items: ["candidates", "items", "remaining", "ranked_candidates"],
+}
+
+/**
+ * Per-pipeline funnel configuration. Keys match metadata.pipeline exactly,
+ * or as a prefix (the longest matching key wins), so one entry can cover
+ * every version of a pipeline.
+ */
+export const PIPELINE_FUNNELS: Record<string, PipelineFunnelConfig> = {
+  "competitor-selection": {
+    // keyword_generation produces keywords, not candidates
+    steps: ["candidate_search", "apply_filters", "llm_relevance_evaluation", "rank_and_select"],
+    counts: {
+      passed: ["passed", "accepted", "qualified", "confirmed", "remaining"],
+    },
+  },
+}
+
+/** Funnel config for a pipeline, or {} if none is registered */
+export function funnelConfigFor(pipeline?: string): PipelineFunnelConfig {
+  if (!pipeline) return {}
+  if (PIPELINE_FUNNELS[pipeline]) return PIPELINE_FUNNELS[pipeline]
+
+  const prefix = Object.keys(PIPELINE_FUNNELS)
+    .filter(key => pipeline.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? PIPELINE_FUNNELS[prefix] : {}
+}
+
+/** Count heuristics for a pipeline: the defaults with its overrides applied */
+export function countHeuristicsFor(pipeline?: string): CountHeuristics {
+  return { ...DEFAULT_COUNT_HEURISTICS, ...funnelConfigFor(pipeline).counts }
+}
+
+/**
+ * First of keys present on obj as a count: numbers as-is, arrays by length
+ */
+export function readCount(obj: any, keys: string[]): number | undefined {
+  if (!obj || typeof obj !== "object") return undefined
+
+  for (const key of keys) {
+    const value = obj[key]
+    if (typeof value === "number" && Number.isFinite(value)) return value
+    if (Array.isArray(value)) return value.length
+  }
+  return undefined
+}
+
+/** Number of items in obj if it is a list (or holds one of the candidate lists) */
+export function readItemCount(obj: any, heuristics: CountHeuristics = DEFAULT_COUNT_HEURISTICS): number | undefined {
+  if (Array.isArray(obj)) return obj.length
+  if (!obj || typeof obj !== "object") return undefined
+
+  for (const key of heuristics.items) {
+    if (Array.isArray(obj[key])) return obj[key].length
+  }
+  return undefined
+}
+
+export interface StepCounts {
+  before?: number              // Candidates going into the step
+  after?: number               // Candidates coming out of it
+  found?: number               // Total search matches, for search steps
+}
+
+/**
+ * Candidates in and out of a step, from explicit output counts if present
+ * (evaluated/passed, then found/returned), else from candidate list sizes.
+ */
+export function readStepCounts(step: Step, heuristics: CountHeuristics = DEFAULT_COUNT_HEURISTICS): StepCounts {
+  const input = step.input ?? {}
+  const output = step.output ?? {}
+
+  const evaluated = readCount(output, heuristics.evaluated)
+  const passed = readCount(output, heuristics.passed)
+  if (evaluated !== undefined && passed !== undefined) {
+    return { before: evaluated, after: passed }
+  }
+
+  const found = readCount(output, heuristics.found)
+  const returned = readCount(output, heuristics.returned)
+  if (found !== undefined && returned !== undefined) {
+    return { after: returned, found }
+  }
+
+  return { before: readItemCount(input, heuristics), after: readItemCount(output, heuristics) }
+}
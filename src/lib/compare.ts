@@ -0,0 +1,426 @@
+// lib/compare.ts - Compare two executions step by step
+// Pure functions, safe to use from client components
+import { Execution, Step } from "@/xRay"
+import { countHeuristicsFor, CountHeuristics, readStepCounts } from "./candidateCounts"
+import { extractEvaluations } from "./evaluations"
+
+/** Most changes reported per diffed value */
+const MAX_CHANGES = 200
+
+/** Keys read as an item's ID, in order (same as evaluations) */
+const ID_KEYS = ["id", "candidate_id", "candidateId", "asin"]
+
+/**
+ * One difference between two JSON values:
+ * - added / removed: the path only exists in b / a
+ * - changed: both have the path with different scalar values (or types)
+ * - moved: an item keyed by ID changed position; before/after are its indexes
+ */
+export type ChangeKind = "added" | "removed" | "changed" | "moved"
+
+export interface JsonChange {
+  path: string                 // e.g. "candidates[asin=B0C1].price", "" for the root
+  kind: ChangeKind
+  before?: any
+  after?: any
+}
+
+export interface JsonDiff {
+  changes: JsonChange[]
+  truncated: boolean           // More than MAX_CHANGES differences
+}
+
+export interface NumberDelta {
+  before?: number
+  after?: number
+  delta?: number               // after - before, when both are known
+}
+
+export interface SelectionDiff {
+  before: string[]             // Candidate IDs selected in a
+  after: string[]              // ... and in b
+  added: string[]              // Only selected in b
+  removed: string[]            // Only selected in a
+}
+
+/**
+ * How a step of a lines up with a step of b:
+ * - unchanged / changed: both runs have the step
+ * - added: only b has it; removed: only a has it
+ */
+export type StepChangeStatus = "unchanged" | "changed" | "added" | "removed"
+
+export interface StepComparison {
+  stepName: string
+  status: StepChangeStatus
+  stepIds: { a?: string; b?: string }
+  input: JsonDiff
+  output: JsonDiff
+  duration: NumberDelta
+  counts: { before: NumberDelta; after: NumberDelta }  // Candidates in and out
+  selection?: SelectionDiff    // Candidates the step kept, when it has any
+  reasoning: { a?: string; b?: string }
+  error: { a?: string; b?: string }
+}
+
+export interface ExecutionSummary {
+  executionId: string
+  startedAt: string
+  endedAt?: string
+  pipeline?: string
+  durationMs?: number
+  stepCount: number
+}
+
+export interface ExecutionComparison {
+  a: ExecutionSummary
+  b: ExecutionSummary
+  duration: NumberDelta
+  steps: StepComparison[]
+  finalOutcome: JsonDiff
+  selection?: SelectionDiff    // Final selections (see finalSelection)
+  summary: Record<StepChangeStatus, number>
+}
+
+/**
+ * Compare execution a (e.g. the old run) with b (the new run). Steps are
+ * aligned by name in order (a longest common subsequence, so inserted or
+ * removed steps don't shift the rest), then each pair's input and output
+ * are diffed structurally, along with durations, candidate counts and the
+ * candidates each step kept.
+ */
+export function compareExecutions(a: Execution, b: Execution): ExecutionComparison {
+  const heuristicsA = countHeuristicsFor(a.metadata?.pipeline)
+  const heuristicsB = countHeuristicsFor(b.metadata?.pipeline)
+
+  const steps = alignSteps(a.steps, b.steps).map(([stepA, stepB]) =>
+    compareSteps(stepA, stepB, heuristicsA, heuristicsB)
+  )
+
+  const summary: Record<StepChangeStatus, number> = { unchanged: 0, changed: 0, added: 0, removed: 0 }
+  for (const step of steps) summary[step.status]++
+
+  const selectedA = finalSelection(a)
+  const selectedB = finalSelection(b)
+
+  return {
+    a: summarize(a),
+    b: summarize(b),
+    duration: numberDelta(executionDuration(a), executionDuration(b)),
+    steps,
+    finalOutcome: diffJson(a.finalOutcome, b.finalOutcome),
+    selection: selectedA.length > 0 || selectedB.length > 0 ? selectionDiff(selectedA, selectedB) : undefined,
+    summary,
+  }
+}
+
+/**
+ * IDs of the candidates an execution ended up selecting: those named in its
+ * final outcome, else those kept by its last step that kept any
+ */
+export function finalSelection(execution: Execution): string[] {
+  const ids = collectIds(execution.finalOutcome)
+  if (ids.length > 0) return ids
+
+  const heuristics = countHeuristicsFor(execution.metadata?.pipeline)
+  for (let i = execution.steps.length - 1; i >= 0; i--) {
+    const selected = selectedCandidates(execution.steps[i], heuristics)
+    if (selected && selected.length > 0) return selected
+  }
+  return []
+}
+
+/**
+ * Pair up steps with the same name, keeping both runs' order. Unpaired
+ * steps are returned alongside undefined, in the position they ran.
+ */
+export function alignSteps(a: Step[], b: Step[]): [Step | undefined, Step | undefined][] {
+  const matches: [number, number][] = []
+  matchNames(a.map(s => s.name), b.map(s => s.name), 0, a.length, 0, b.length, matches)
+
+  const pairs: [Step | undefined, Step | undefined][] = []
+  let i = 0
+  let j = 0
+  for (const [matchA, matchB] of matches) {
+    while (i < matchA) pairs.push([a[i++], undefined])
+    while (j < matchB) pairs.push([undefined, b[j++]])
+    pairs.push([a[i++], b[j++]])
+  }
+  while (i < a.length) pairs.push([a[i++], undefined])
+  while (j < b.length) pairs.push([undefined, b[j++]])
+
+  return pairs
+}
+
+/**
+ * Longest common subsequence of a[aStart..aEnd) and b[bStart..bEnd), as
+ * index pairs appended to matches in order. Hirschberg's algorithm: memory
+ * stays linear in the number of steps, which can run into the thousands
+ * once per-candidate sub-steps are recorded.
+ */
+function matchNames(
+  a: string[], b: string[],
+  aStart: number, aEnd: number, bStart: number, bEnd: number,
+  matches: [number, number][]
+) {
+  // Runs usually share most of their steps, so strip the common ends first
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    matches.push([aStart++, bStart++])
+  }
+  const suffix: [number, number][] = []
+  while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+    suffix.unshift([--aEnd, --bEnd])
+  }
+
+  if (aEnd - aStart === 1) {
+    for (let j = bStart; j < bEnd; j++) {
+      if (a[aStart] === b[j]) {
+        matches.push([aStart, j])
+        break
+      }
+    }
+  } else if (aStart < aEnd && bStart < bEnd) {
+    // Split b where the best subsequence crosses the middle of a
+    const mid = (aStart + aEnd) >> 1
+    const width = bEnd - bStart
+    const before = lcsLengths(width, mid - aStart, (i, k) => a[aStart + i] === b[bStart + k])
+    const after = lcsLengths(width, aEnd - mid, (i, k) => a[aEnd - 1 - i] === b[bEnd - 1 - k])
+
+    let split = 0
+    for (let k = 1; k <= width; k++) {
+      if (before[k] + after[width - k] > before[split] + after[width - split]) split = k
+    }
+
+    matchNames(a, b, aStart, mid, bStart, bStart + split, matches)
+    matchNames(a, b, mid, aEnd, bStart + split, bEnd, matches)
+  }
+
+  matches.push(...suffix)
+}
+
+/**
+ * row[k] = length of the longest common subsequence of the first rows items
+ * of one list and the first k of the other (same(i, k) compares them)
+ */
+function lcsLengths(width: number, rows: number, same: (i: number, k: number) => boolean): number[] {
+  let previous = new Array<number>(width + 1).fill(0)
+  let current = new Array<number>(width + 1).fill(0)
+  for (let i = 0; i < rows; i++) {
+    current[0] = 0
+    for (let k = 1; k <= width; k++) {
+      current[k] = same(i, k - 1) ? previous[k - 1] + 1 : Math.max(previous[k], current[k - 1])
+    }
+    [previous, current] = [current, previous]
+  }
+  return previous
+}
+
+/**
+ * Structural diff of two JSON values. Objects are compared key by key;
+ * arrays of objects that all carry a unique ID (id, candidate_id, asin...)
+ * are matched by ID, so a reordered candidate list shows as moves rather
+ * than every index changing. Other arrays are compared index by index.
+ */
+export function diffJson(a: any, b: any): JsonDiff {
+  const changes: JsonChange[] = []
+  let truncated = false
+
+  const push = (change: JsonChange) => {
+    if (changes.length >= MAX_CHANGES) {
+      truncated = true
+      return
+    }
+    changes.push(change)
+  }
+
+  const visit = (before: any, after: any, path: string) => {
+    if (truncated) return
+    if (before === undefined && after === undefined) return
+    if (before === undefined) return push({ path, kind: "added", after })
+    if (after === undefined) return push({ path, kind: "removed", before })
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+      const keyA = itemKeys(before)
+      const keyB = keyA && itemKeys(after)
+      if (keyA && keyB && keyA.key === keyB.key) {
+        visitKeyed(before, after, keyA.ids, keyB.ids, keyA.key, path)
+      } else {
+        for (let i = 0; i < Math.max(before.length, after.length); i++) {
+          visit(before[i], after[i], `${path}[${i}]`)
+        }
+      }
+      return
+    }
+
+    if (isObject(before) && isObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+      for (const key of keys) {
+        visit(before[key], after[key], path ? `${path}.${key}` : key)
+      }
+      return
+    }
+
+    if (!sameScalar(before, after)) push({ path, kind: "changed", before, after })
+  }
+
+  const visitKeyed = (before: any[], after: any[], idsA: string[], idsB: string[], key: string, path: string) => {
+    const indexB = new Map(idsB.map((id, i) => [id, i]))
+    const indexA = new Map(idsA.map((id, i) => [id, i]))
+
+    idsA.forEach((id, i) => {
+      const itemPath = `${path}[${key}=${id}]`
+      const j = indexB.get(id)
+      if (j === undefined) return push({ path: itemPath, kind: "removed", before: before[i] })
+      if (i !== j) push({ path: itemPath, kind: "moved", before: i, after: j })
+      visit(before[i], after[j], itemPath)
+    })
+    idsB.forEach((id, j) => {
+      if (!indexA.has(id)) push({ path: `${path}[${key}=${id}]`, kind: "added", after: after[j] })
+    })
+  }
+
+  visit(a, b, "")
+  return { changes, truncated }
+}
+
+function compareSteps(
+  a: Step | undefined,
+  b: Step | undefined,
+  heuristicsA: CountHeuristics,
+  heuristicsB: CountHeuristics
+): StepComparison {
+  const countsA = a ? readStepCounts(a, heuristicsA) : {}
+  const countsB = b ? readStepCounts(b, heuristicsB) : {}
+  const selectedA = a ? selectedCandidates(a, heuristicsA) : undefined
+  const selectedB = b ? selectedCandidates(b, heuristicsB) : undefined
+
+  const comparison: StepComparison = {
+    stepName: (a ?? b)!.name,
+    status: !a ? "added" : !b ? "removed" : "unchanged",
+    stepIds: { a: a?.id, b: b?.id },
+    // Unpaired steps have nothing to diff against
+    input: a && b ? diffJson(a.input, b.input) : { changes: [], truncated: false },
+    output: a && b ? diffJson(a.output, b.output) : { changes: [], truncated: false },
+    duration: numberDelta(a?.durationMs, b?.durationMs),
+    counts: {
+      before: numberDelta(countsA.before, countsB.before),
+      after: numberDelta(countsA.after, countsB.after),
+    },
+    selection: selectedA || selectedB ? selectionDiff(selectedA ?? [], selectedB ?? []) : undefined,
+    reasoning: { a: a?.reasoning, b: b?.reasoning },
+    error: { a: a?.error, b: b?.error },
+  }
+
+  if (
+    comparison.status === "unchanged" &&
+    (comparison.input.changes.length > 0 || comparison.output.changes.length > 0 || a!.error !== b!.error)
+  ) {
+    comparison.status = "changed"
+  }
+  return comparison
+}
+
+/**
+ * IDs of the candidates a step kept: those that passed its evaluations,
+ * else the IDs in its output candidate list. Undefined if it has neither.
+ */
+function selectedCandidates(step: Step, heuristics: CountHeuristics): string[] | undefined {
+  const evaluations = extractEvaluations(step)
+  if (evaluations.length > 0) {
+    return evaluations.filter(e => e.passed !== false).map(e => e.candidateId)
+  }
+
+  const output = step.output
+  if (!output || typeof output !== "object") return undefined
+  const list = Array.isArray(output) ? output : heuristics.items.map(key => output[key]).find(Array.isArray)
+  if (!list) return undefined
+
+  const ids = list.map(itemId).filter((id): id is string => id !== undefined)
+  return ids.length > 0 ? ids : undefined
+}
+
+/** Every item ID found anywhere in value, in order, without duplicates */
+function collectIds(value: any): string[] {
+  const ids = new Set<string>()
+
+  const visit = (current: any) => {
+    if (!current || typeof current !== "object") return
+    if (Array.isArray(current)) return current.forEach(visit)
+
+    const id = itemId(current)
+    if (id !== undefined) ids.add(id)
+    Object.values(current).forEach(visit)
+  }
+
+  visit(value)
+  return Array.from(ids)
+}
+
+function itemId(item: any): string | undefined {
+  if (!isObject(item)) return undefined
+  for (const key of ID_KEYS) {
+    const value = item[key]
+    if (typeof value === "string" && value !== "") return value
+    if (typeof value === "number") return String(value)
+  }
+  return undefined
+}
+
+/** The ID key shared by every item of list, and their IDs, if all unique */
+function itemKeys(list: any[]): { key: string; ids: string[] } | undefined {
+  if (list.length === 0 || !list.every(isObject)) return undefined
+
+  for (const key of ID_KEYS) {
+    const ids = list.map(item => item[key])
+    if (!ids.every(id => (typeof id === "string" && id !== "") || typeof id === "number")) continue
+    const strings = ids.map(String)
+    if (new Set(strings).size === strings.length) return { key, ids: strings }
+  }
+  return undefined
+}
+
+/** Which IDs were added to and removed from a selection */
+export function selectionDiff(before: string[], after: string[]): SelectionDiff {
+  const inBefore = new Set(before)
+  const inAfter = new Set(after)
+  return {
+    before,
+    after,
+    added: after.filter(id => !inBefore.has(id)),
+    removed: before.filter(id => !inAfter.has(id)),
+  }
+}
+
+function numberDelta(before?: number, after?: number): NumberDelta {
+  return {
+    before,
+    after,
+    delta: before !== undefined && after !== undefined ? after - before : undefined,
+  }
+}
+
+function executionDuration(execution: Execution): number | undefined {
+  if (!execution.endedAt) return undefined
+  return new Date(execution.endedAt).getTime() - new Date(execution.startedAt).getTime()
+}
+
+function summarize(execution: Execution): ExecutionSummary {
+  return {
+    executionId: execution.executionId,
+    startedAt: execution.startedAt,
+    endedAt: execution.endedAt,
+    pipeline: execution.metadata?.pipeline,
+    durationMs: executionDuration(execution),
+    stepCount: execution.steps.length,
+  }
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+function sameScalar(a: any, b: any): boolean {
+  if (a === b) return true
+  // Empty objects/arrays and mismatched container types end up here
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,79 @@
+// lib/evaluations.ts - Normalize per-candidate evaluations recorded on steps
+// Pure functions, safe to use from client components
+import { Step } from "@/xRay"
+
+export interface FilterResult {
+  filter: string
+  passed: boolean
+  detail?: string
+}
+
+export interface CandidateEvaluation {
+  candidateId: string
+  label?: string               // Human-readable name (e.g. product title)
+  passed?: boolean
+  metrics?: Record<string, any>
+  filterResults: FilterResult[]
+  reasoning?: string
+  rejectionCode?: string       // e.g. rejection_reason.code from an LLM judge
+}
+
+/**
+ * Candidate evaluations recorded on a step.
+ * Reads step.evaluations, falling back to output.evaluations for pipelines
+ * that return their evaluations as step output (e.g. apply_filters).
+ * Entries without a candidate ID are skipped.
+ */
+export function extractEvaluations(step: Step): CandidateEvaluation[] {
+  const source = Array.isArray(step.evaluations) && step.evaluations.length > 0
+    ? step.evaluations
+    : step.output?.evaluations
+
+  if (!Array.isArray(source)) return []
+
+  const evaluations: CandidateEvaluation[] = []
+  for (const item of source) {
+    const evaluation = toCandidateEvaluation(item)
+    if (evaluation) evaluations.push(evaluation)
+  }
+  return evaluations
+}
+
+/** Filters a candidate failed, in the order they were recorded */
+export function failedFilters(evaluation: CandidateEvaluation): FilterResult[] {
+  return evaluation.filterResults.filter(r => !r.passed)
+}
+
+function toCandidateEvaluation(item: any): CandidateEvaluation | null {
+  if (!item || typeof item !== "object") return null
+
+  const rawId = item.id ?? item.candidate_id ?? item.candidateId ?? item.asin
+  if (rawId === undefined || rawId === null || rawId === "") return null
+
+  const filterResults: FilterResult[] = []
+  if (item.filter_results && typeof item.filter_results === "object") {
+    for (const [filter, result] of Object.entries<any>(item.filter_results)) {
+      if (typeof result?.passed !== "boolean") continue
+      filterResults.push({
+        filter,
+        passed: result.passed,
+        detail: typeof result.detail === "string" ? result.detail : undefined,
+      })
+    }
+  }
+
+  return {
+    candidateId: String(rawId),
+    label: item.title ?? item.name ?? undefined,
+    passed: firstBoolean(item.passed, item.qualified, item.is_competitor, item.is_relevant)
+      ?? (filterResults.length > 0 ? filterResults.every(r => r.passed) : undefined),
+    metrics: item.metrics && typeof item.metrics === "object" ? item.metrics : undefined,
+    filterResults,
+    reasoning: item.reasoning ?? item.rejection_reason?.explanation ?? item.reason ?? undefined,
+    rejectionCode: item.rejection_reason?.code ?? undefined,
+  }
+}
+
+function firstBoolean(...values: any[]): boolean | undefined {
+  return values.find(v => typeof v === "boolean")
+}
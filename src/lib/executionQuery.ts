@@ -0,0 +1,84 @@
+// lib/executionQuery.ts - Parse execution listing filters from a query string
+// Shared by GET /api/executions and the dashboard home page
+import type { ExecutionListQuery } from "./storage"
+
+const METADATA_PREFIX = "metadata."
+
+export type ParsedExecutionQuery =
+  | { query: ExecutionListQuery; error?: undefined }
+  | { query?: undefined; error: string }
+
+/**
+ * Parse listing filters:
+ *   from, to                      ISO timestamps bounding startedAt
+ *   projectId, stepName
+ *   metadata.<key>=<value>        e.g. metadata.pipeline=competitor-selection-v2
+ *   hasError=true|false
+ *   minDurationMs, maxDurationMs  execution duration bounds
+ *   sort=startedAt|durationMs, order=asc|desc
+ *   cursor, limit
+ * Empty values are ignored, so plain HTML forms can submit every field.
+ */
+export function parseExecutionListQuery(params: URLSearchParams): ParsedExecutionQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined
+  const query: ExecutionListQuery = {}
+
+  for (const key of ["from", "to"] as const) {
+    const value = get(key)
+    if (value === undefined) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO 8601 timestamp` }
+    }
+    query[key] = date
+  }
+
+  query.projectId = get("projectId")
+  query.stepName = get("stepName")
+  query.cursor = get("cursor")
+
+  const hasError = get("hasError")
+  if (hasError !== undefined) {
+    if (hasError !== "true" && hasError !== "false") {
+      return { error: "hasError must be true or false" }
+    }
+    query.hasError = hasError === "true"
+  }
+
+  for (const key of ["minDurationMs", "maxDurationMs", "limit"] as const) {
+    const value = get(key)
+    if (value === undefined) continue
+    const n = Number(value)
+    if (!Number.isInteger(n) || n < 0 || (key === "limit" && n === 0)) {
+      return { error: `${key} must be a ${key === "limit" ? "positive" : "non-negative"} integer` }
+    }
+    query[key] = n
+  }
+
+  const sort = get("sort")
+  if (sort !== undefined) {
+    if (sort !== "startedAt" && sort !== "durationMs") {
+      return { error: "sort must be startedAt or durationMs" }
+    }
+    query.sort = sort
+  }
+
+  const order = get("order")
+  if (order !== undefined) {
+    if (order !== "asc" && order !== "desc") {
+      return { error: "order must be asc or desc" }
+    }
+    query.order = order
+  }
+
+  for (const [key, value] of params) {
+    if (!key.startsWith(METADATA_PREFIX) || !value.trim()) continue
+    const field = key.slice(METADATA_PREFIX.length)
+    if (!field) {
+      return { error: "metadata filters look like metadata.<key>=<value>" }
+    }
+    query.metadata = { ...query.metadata, [field]: value.trim() }
+  }
+
+  return { query }
+}
@@ -0,0 +1,74 @@
+// lib/funnel.ts - Candidate funnel: how many candidates survive each step
+// Pure functions, safe to use from client components
+import { Execution } from "@/xRay"
+import { countHeuristicsFor, funnelConfigFor, readStepCounts } from "./candidateCounts"
+import { extractEvaluations, failedFilters } from "./evaluations"
+
+export interface FunnelDropOff {
+  reason: string               // Filter name, rejection code, or "rejected"
+  count: number
+}
+
+export interface FunnelStage {
+  stepId?: string
+  stepName: string
+  count: number                // Candidates that survived the step
+  before?: number              // Candidates that went into it
+  found?: number               // Total matches, for search steps
+  dropped: number
+  dropOff: FunnelDropOff[]     // Who eliminated the dropped candidates, most first
+}
+
+/**
+ * Build the candidate funnel for an execution. Counts come from step
+ * outputs (using the pipeline's count heuristics), falling back to the
+ * step's evaluations; steps without any count are left out. Each rejected
+ * candidate is attributed to the first filter it failed.
+ */
+export function buildCandidateFunnel(execution: Execution): FunnelStage[] {
+  const pipeline = execution.metadata?.pipeline
+  const config = funnelConfigFor(pipeline)
+  const heuristics = countHeuristicsFor(pipeline)
+
+  // Sub-steps are implementation details of their parent step
+  let steps = execution.steps.filter(step => !step.parentId)
+  if (config.steps) {
+    const order = config.steps
+    steps = steps
+      .filter(step => order.includes(step.name))
+      .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name))
+  }
+
+  const stages: FunnelStage[] = []
+  let previous: number | undefined
+
+  for (const step of steps) {
+    const counts = readStepCounts(step, heuristics)
+    const evaluations = extractEvaluations(step)
+    const rejected = evaluations.filter(e => e.passed === false)
+
+    const count = counts.after ?? (evaluations.length > 0 ? evaluations.length - rejected.length : undefined)
+    if (count === undefined) continue
+
+    const before = counts.before ?? (evaluations.length > 0 ? evaluations.length : previous)
+
+    const reasons = new Map<string, number>()
+    for (const evaluation of rejected) {
+      const reason = failedFilters(evaluation)[0]?.filter ?? evaluation.rejectionCode ?? "rejected"
+      reasons.set(reason, (reasons.get(reason) || 0) + 1)
+    }
+
+    stages.push({
+      stepId: step.id,
+      stepName: step.name,
+      count,
+      before,
+      found: counts.found,
+      dropped: before !== undefined ? Math.max(0, before - count) : 0,
+      dropOff: Array.from(reasons, ([reason, n]) => ({ reason, count: n })).sort((a, b) => b.count - a.count),
+    })
+    previous = count
+  }
+
+  return stages
+}
@@ -0,0 +1,136 @@
+// lib/lineage.ts - Follow one entity (e.g. an ASIN) through an execution's steps
+// Pure functions, safe to use from client components
+import { Execution } from "@/xRay"
+import { readItemCount } from "./candidateCounts"
+import { CandidateEvaluation, extractEvaluations, failedFilters } from "./evaluations"
+
+/** Most matching JSON paths reported per step input/output */
+const MAX_MATCH_PATHS = 10
+
+/**
+ * What happened to the entity at a step:
+ * - appeared: first step whose output (or evaluations) contains it
+ * - kept: it was passed on (or passed the step's evaluation)
+ * - dropped: it went in but the step's candidate output no longer has it,
+ *   or it failed the step's evaluation
+ * - mentioned: it only appears in the input of a step that doesn't output candidates
+ * - absent: not referenced by the step
+ */
+export type LineageStatus = "appeared" | "kept" | "dropped" | "mentioned" | "absent"
+
+export interface LineageStep {
+  stepId?: string
+  stepName: string
+  status: LineageStatus
+  inputPaths: string[]         // Where the ID occurs in the input, e.g. "candidates[3].asin"
+  outputPaths: string[]
+  evaluation?: CandidateEvaluation
+  reason?: string              // Why it was dropped, when known
+}
+
+export interface EntityLineage {
+  entityId: string
+  found: boolean
+  firstSeen?: { stepId?: string; stepName: string }
+  droppedAt?: { stepId?: string; stepName: string; reason?: string }
+  survived: boolean            // Seen, and still present after the last step that referenced it
+  steps: LineageStep[]
+}
+
+/**
+ * Scan every step's input, output and evaluations for entityId (an exact
+ * match on any string or number value) and work out where it entered the
+ * pipeline, which steps kept it, and where and why it was dropped.
+ */
+export function traceEntity(execution: Execution, entityId: string): EntityLineage {
+  const id = entityId.trim()
+  const steps: LineageStep[] = []
+  let seen = false
+
+  for (const step of execution.steps) {
+    const inputPaths = findPaths(step.input, id)
+    const outputPaths = findPaths(step.output, id)
+    const evaluation = extractEvaluations(step).find(e => e.candidateId === id)
+
+    let status: LineageStatus
+    let reason: string | undefined
+
+    if (evaluation?.passed === false) {
+      status = "dropped"
+      reason = rejectionReason(evaluation)
+    } else if (evaluation || outputPaths.length > 0) {
+      status = seen || inputPaths.length > 0 ? "kept" : "appeared"
+    } else if (inputPaths.length > 0) {
+      // Only call it dropped if the step hands candidates on at all
+      if (readItemCount(step.output) !== undefined) {
+        status = "dropped"
+        reason = "not passed on in the step output"
+      } else {
+        status = "mentioned"
+      }
+    } else {
+      status = "absent"
+    }
+
+    if (status !== "absent") seen = true
+
+    steps.push({
+      stepId: step.id,
+      stepName: step.name,
+      status,
+      inputPaths,
+      outputPaths,
+      evaluation,
+      reason,
+    })
+  }
+
+  const first = steps.find(s => s.status !== "absent")
+  const lastReferenced = [...steps].reverse().find(s => s.status !== "absent" && s.status !== "mentioned")
+  const dropped = lastReferenced?.status === "dropped" ? lastReferenced : undefined
+
+  return {
+    entityId: id,
+    found: !!first,
+    firstSeen: first && { stepId: first.stepId, stepName: first.stepName },
+    droppedAt: dropped && { stepId: dropped.stepId, stepName: dropped.stepName, reason: dropped.reason },
+    survived: !!lastReferenced && !dropped,
+    steps,
+  }
+}
+
+function rejectionReason(evaluation: CandidateEvaluation): string | undefined {
+  const failed = failedFilters(evaluation)
+  if (failed.length > 0) {
+    return failed.map(r => (r.detail ? `${r.filter} (${r.detail})` : r.filter)).join(", ")
+  }
+  return evaluation.reasoning ?? evaluation.rejectionCode
+}
+
+/**
+ * Paths of every string/number value equal to id, depth first
+ */
+function findPaths(value: any, id: string): string[] {
+  const paths: string[] = []
+
+  const visit = (current: any, path: string) => {
+    if (paths.length >= MAX_MATCH_PATHS) return
+
+    if (typeof current === "string" || typeof current === "number") {
+      if (String(current) === id) paths.push(path)
+      return
+    }
+    if (!current || typeof current !== "object") return
+
+    if (Array.isArray(current)) {
+      current.forEach((item, i) => visit(item, `${path}[${i}]`))
+    } else {
+      for (const [key, item] of Object.entries(current)) {
+        visit(item, path ? `${path}.${key}` : key)
+      }
+    }
+  }
+
+  visit(value, "")
+  return paths
+}
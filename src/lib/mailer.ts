@@ -0,0 +1,76 @@
+// lib/mailer.ts - Outgoing email (sign-in links)
+// Pluggable: register a provider with setMailer(), or pick a built-in one with XRAY_MAILER
+
+import { appendFile, mkdir } from "fs/promises"
+import path from "path"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Sends email. Implement this to plug in a provider (SMTP, SES, Resend, ...).
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Prints each email to the server log (local development)
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mailer] 📧 To: ${message.to}\n[Mailer] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Appends each email to <dir>/outbox.log (local development and scripts)
+ */
+export class FileMailer implements Mailer {
+  private file: string
+
+  constructor(private dir: string) {
+    this.file = path.join(dir, "outbox.log")
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    const entry = [
+      `Date: ${new Date().toISOString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "",
+      "",
+    ].join("\n")
+    await appendFile(this.file, entry, "utf-8")
+    console.log(`[Mailer] 📧 Wrote email to ${message.to} in ${this.file}`)
+  }
+}
+
+let mailer: Mailer | null = null
+
+/**
+ * The mailer in use: the one registered with setMailer(), else
+ * XRAY_MAILER=console (default) or XRAY_MAILER=file (written to
+ * XRAY_MAILER_DIR, default .mail)
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = process.env.XRAY_MAILER === "file"
+      ? new FileMailer(process.env.XRAY_MAILER_DIR || ".mail")
+      : new ConsoleMailer()
+  }
+  return mailer
+}
+
+/**
+ * Use a different mailer, e.g. a real email provider in production
+ */
+export function setMailer(next: Mailer) {
+  mailer = next
+}
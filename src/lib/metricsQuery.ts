@@ -0,0 +1,70 @@
+// lib/metricsQuery.ts - Parse metrics filters from a query string
+// Shared by GET /api/metrics and the metrics dashboard page
+import type { MetricsBucket, MetricsQuery } from "./storage"
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/** Window covered when from is not given */
+const DEFAULT_RANGE_MS = 7 * DAY_MS
+
+/** Longest window charted by the hour (default bucket: hour up to this, else day) */
+const MAX_HOURLY_RANGE_MS = 2 * DAY_MS
+
+/** Most points in a volume series (31 days by the hour) */
+const MAX_BUCKETS = 31 * 24
+
+export type ParsedMetricsQuery =
+  | { query: MetricsQuery; error?: undefined }
+  | { query?: undefined; error: string }
+
+/**
+ * Parse metrics filters:
+ *   from, to           ISO timestamps (default: the last 7 days)
+ *   bucket=hour|day    volume granularity (default: hour for windows up to 2 days)
+ *   projectId, pipeline
+ * Empty values are ignored, so plain HTML forms can submit every field.
+ */
+export function parseMetricsQuery(params: URLSearchParams, now = new Date()): ParsedMetricsQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined
+
+  const dates: { from?: Date; to?: Date } = {}
+  for (const key of ["from", "to"] as const) {
+    const value = get(key)
+    if (value === undefined) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO 8601 timestamp` }
+    }
+    dates[key] = date
+  }
+
+  const to = dates.to ?? now
+  const from = dates.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS)
+  if (from >= to) {
+    return { error: "from must be before to" }
+  }
+
+  const range = to.getTime() - from.getTime()
+  let bucket: MetricsBucket = range <= MAX_HOURLY_RANGE_MS ? "hour" : "day"
+  const requested = get("bucket")
+  if (requested !== undefined) {
+    if (requested !== "hour" && requested !== "day") {
+      return { error: "bucket must be hour or day" }
+    }
+    bucket = requested
+  }
+  if (range / (bucket === "hour" ? HOUR_MS : DAY_MS) > MAX_BUCKETS) {
+    return { error: `At most ${MAX_BUCKETS} ${bucket}s can be charted; narrow from/to or use a larger bucket` }
+  }
+
+  return {
+    query: {
+      from,
+      to,
+      bucket,
+      projectId: get("projectId"),
+      pipeline: get("pipeline"),
+    },
+  }
+}
@@ -1,6 +1,7 @@
 // lib/openaiReasoner.ts
 import OpenAI from "openai"
 import { Step } from "@/xRay/step"
+import { CountHeuristics, DEFAULT_COUNT_HEURISTICS, countHeuristicsFor, readCount, readItemCount } from "./candidateCounts"
 
 let openai: OpenAI | null = null
 
@@ -13,11 +14,14 @@ function getOpenAIClient(): OpenAI {
   return openai
 }
 
-export async function openaiExplainStep(step: Step): Promise<string> {
+export async function openaiExplainStep(step: Step, pipeline?: string): Promise<string> {
   console.log(`[LLM] 🚀 Starting reasoning generation for step: ${step.name}`)
 
+  // Count keys can be tuned per pipeline (see PIPELINE_FUNNELS)
+  const heuristics = countHeuristicsFor(pipeline)
+
   // Fast numeric summaries FIRST (no API cost)
-  const numericReasoning = generateNumericReasoning(step)
+  const numericReasoning = generateNumericReasoning(step, heuristics)
     if (numericReasoning) {
        console.log(`[LLM] ✓ Using numeric reasoning: "${numericReasoning}"`)
       return numericReasoning
@@ -130,7 +134,7 @@ Generate reasoning now:`;
     // If response looks like truncated JSON, return fallback
     if (reasoning.startsWith('{') && !reasoning.endsWith('}')) {
       console.log(`[LLM]   Detected truncated JSON response, using fallback`)
-      const fallback = generateNumericReasoning(step) || `Processed ${step.name}`
+      const fallback = generateNumericReasoning(step, heuristics) || `Processed ${step.name}`
       console.log(`[LLM] ✓ Using fallback: "${fallback}"`)
       return fallback
     }
@@ -142,13 +146,13 @@ Generate reasoning now:`;
     console.error(`[LLM] ❌ Error details:`, error)
     console.log(`[LLM] 🔄 Falling back to numeric reasoning...`)
 
-    const fallback = generateNumericReasoning(step) || `✅ ${step.name} processed`
+    const fallback = generateNumericReasoning(step, heuristics) || `✅ ${step.name} processed`
     console.log(`[LLM] ✓ Using fallback: "${fallback}"`)
     return fallback
   }
 }
 
-function generateNumericReasoning(step: Step): string | null {
+function generateNumericReasoning(step: Step, heuristics: CountHeuristics = DEFAULT_COUNT_HEURISTICS): string | null {
   const input = step.input ?? {}
   const output = step.output ?? {}
 
@@ -160,30 +164,25 @@ function generateNumericReasoning(step: Step): string | null {
   }
 
   // Filter pass/fail
-  const total = output.total_evaluated ?? output.total_evaluated ?? output.evaluated?.length
-  const passed = output.passed ?? output.accepted ?? output.remaining?.length
+  const total = readCount(output, heuristics.evaluated)
+  const passed = readCount(output, heuristics.passed)
   if (total && passed !== undefined) {
     return `📊 ${passed}/${total} passed`
   }
 
   // Search results
-  const found = output.total_results ?? output.total_found ?? output.total
-  const returned = output.candidates_fetched ?? output.candidates?.length
+  const found = readCount(output, heuristics.found)
+  const returned = readCount(output, heuristics.returned)
   if (found && returned) {
     return `🔍 ${found}→${returned} results`
   }
 
   // Size change (only if different)
-  const inputCount = getArrayLength(input)
-  const outputCount = getArrayLength(output)
+  const inputCount = readItemCount(input, heuristics)
+  const outputCount = readItemCount(output, heuristics)
   if (inputCount && outputCount && inputCount !== outputCount) {
     return `🔄 ${inputCount}→${outputCount} items`
   }
 
   return null
 }
-
-function getArrayLength(obj: any): number | null {
-  if (Array.isArray(obj)) return obj.length
-  return obj?.candidates?.length ?? obj?.items?.length ?? obj?.remaining?.length ?? obj?.ranked_candidates?.length ?? null
-}
@@ -0,0 +1,185 @@
+// lib/organizations.ts - Organizations (teams) and their members' roles
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import type { ApiKeyAuth } from './auth'
+
+/**
+ * Member roles, weakest first:
+ *   viewer  read executions, projects and members
+ *   admin   also ingest executions, run reasoning, manage projects, keys and non-owner members
+ *   owner   also manage owners
+ */
+export const ROLES = ['viewer', 'admin', 'owner'] as const
+export type Role = (typeof ROLES)[number]
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether role grants at least the required role
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required)
+}
+
+/**
+ * Create an organization owned by a user, with a "default" project
+ */
+export async function createOrganization(userId: string, slug: string, name?: string) {
+  const existing = await prisma.organization.findUnique({
+    where: { slug }
+  })
+
+  if (existing) {
+    throw new Error('Organization already exists')
+  }
+
+  return prisma.organization.create({
+    data: {
+      slug,
+      name: name || slug,
+      memberships: { create: { userId, role: 'owner' } },
+      projects: { create: { slug: 'default', name: 'Default' } }
+    }
+  })
+}
+
+/**
+ * Get an organization by slug
+ */
+export async function getOrganization(slug: string) {
+  return prisma.organization.findUnique({
+    where: { slug }
+  })
+}
+
+/**
+ * The organization with this slug, if it's the one the API key acts in
+ * (keys act within a single organization)
+ */
+export async function getAuthOrganization(auth: ApiKeyAuth, slug: string) {
+  const organization = await getOrganization(slug)
+  return organization?.id === auth.organizationId ? organization : null
+}
+
+/**
+ * Get the organizations a user belongs to, with their role in each
+ */
+export async function getUserOrganizations(userId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    include: { organization: true },
+    orderBy: { createdAt: 'asc' }
+  })
+  return memberships.map(m => ({ ...m.organization, role: m.role as Role }))
+}
+
+/**
+ * A user's role in an organization, or null if they aren't a member
+ */
+export async function getMemberRole(organizationId: string, userId: string): Promise<Role | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true }
+  })
+  return membership && isRole(membership.role) ? membership.role : null
+}
+
+/**
+ * List an organization's members, oldest first
+ */
+export async function getMembers(organizationId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { organizationId },
+    include: { user: { select: { id: true, email: true, name: true } } },
+    orderBy: { createdAt: 'asc' }
+  })
+  return memberships.map(m => ({
+    userId: m.user.id,
+    email: m.user.email,
+    name: m.user.name,
+    role: m.role as Role,
+    joinedAt: m.createdAt
+  }))
+}
+
+/**
+ * Add an existing user (by email) to an organization
+ */
+export async function addMember(organizationId: string, email: string, role: Role) {
+  const user = await prisma.user.findUnique({
+    where: { email }
+  })
+
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  if (await getMemberRole(organizationId, user.id)) {
+    throw new Error('User is already a member')
+  }
+
+  await prisma.membership.create({
+    data: { organizationId, userId: user.id, role }
+  })
+  console.log(`[Orgs] ✅ Added ${email} to ${organizationId} as ${role}`)
+  return user
+}
+
+/**
+ * Change a member's role. An organization always keeps at least one owner.
+ */
+export async function updateMemberRole(organizationId: string, userId: string, role: Role) {
+  return prisma.$transaction(async tx => {
+    const membership = await tx.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } }
+    })
+
+    if (!membership) {
+      throw new Error('Member not found')
+    }
+
+    if (membership.role === 'owner' && role !== 'owner') {
+      await assertAnotherOwner(tx, organizationId, userId)
+    }
+
+    return tx.membership.update({
+      where: { id: membership.id },
+      data: { role }
+    })
+  })
+}
+
+/**
+ * Remove a member (and the API keys they created for the organization).
+ * An organization always keeps at least one owner.
+ */
+export async function removeMember(organizationId: string, userId: string) {
+  await prisma.$transaction(async tx => {
+    const membership = await tx.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } }
+    })
+
+    if (!membership) {
+      throw new Error('Member not found')
+    }
+
+    if (membership.role === 'owner') {
+      await assertAnotherOwner(tx, organizationId, userId)
+    }
+
+    await tx.apiKey.deleteMany({ where: { organizationId, userId } })
+    await tx.membership.delete({ where: { id: membership.id } })
+  })
+  console.log(`[Orgs] ✅ Removed ${userId} from ${organizationId}`)
+}
+
+async function assertAnotherOwner(tx: Prisma.TransactionClient, organizationId: string, userId: string) {
+  const owners = await tx.membership.count({
+    where: { organizationId, role: 'owner', userId: { not: userId } }
+  })
+  if (owners === 0) {
+    throw new Error('An organization needs at least one owner')
+  }
+}
@@ -0,0 +1,110 @@
+// lib/projects.ts - Projects: named groups of executions within an organization
+import { prisma } from './prisma'
+import type { ApiKeyAuth } from './auth'
+
+/** Project every user starts with, and the one unscoped keys ingest into by default */
+export const DEFAULT_PROJECT = 'default'
+
+/** Cookie holding the dashboard's current project slug */
+export const PROJECT_COOKIE = 'xray_project'
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/
+
+/**
+ * Check a project or organization slug; returns an error message, or null if valid
+ */
+export function validateSlug(slug: unknown): string | null {
+  if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug)) {
+    return 'slug must be 1-63 lowercase letters, digits, "-" or "_", starting with a letter or digit'
+  }
+  return null
+}
+
+/**
+ * Create a project in an organization
+ */
+export async function createProject(organizationId: string, slug: string, name?: string) {
+  const existing = await prisma.project.findUnique({
+    where: { organizationId_slug: { organizationId, slug } }
+  })
+
+  if (existing) {
+    throw new Error('Project already exists')
+  }
+
+  return prisma.project.create({
+    data: { organizationId, slug, name: name || slug }
+  })
+}
+
+/**
+ * Get one of an organization's projects by slug
+ */
+export async function getProject(organizationId: string, slug: string) {
+  return prisma.project.findUnique({
+    where: { organizationId_slug: { organizationId, slug } }
+  })
+}
+
+/**
+ * Get an organization's projects, oldest first
+ */
+export async function getOrganizationProjects(organizationId: string) {
+  return prisma.project.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+/**
+ * Every project slug in use (in an organization, if given), for the
+ * dashboard's project switcher
+ */
+export async function listProjectSlugs(organizationId?: string): Promise<string[]> {
+  const rows = await prisma.project.findMany({
+    where: organizationId ? { organizationId } : undefined,
+    distinct: ['slug'],
+    select: { slug: true },
+    orderBy: { slug: 'asc' }
+  })
+  return rows.map(row => row.slug)
+}
+
+export type IngestProject =
+  | { projectId: string; error?: undefined; status?: undefined }
+  | { projectId?: undefined; error: string; status: number }
+
+/**
+ * The project an ingested execution belongs to. Project-scoped keys always
+ * ingest into their project; other keys use metadata.projectId (requested),
+ * else the default project, which must exist.
+ */
+export async function resolveIngestProject(auth: ApiKeyAuth, requested?: unknown): Promise<IngestProject> {
+  const slug = typeof requested === 'string' && requested ? requested : undefined
+
+  if (auth.projectId) {
+    if (slug && slug !== auth.projectId) {
+      return { error: `This API key can only ingest into project "${auth.projectId}"`, status: 403 }
+    }
+    return { projectId: auth.projectId }
+  }
+
+  const projectId = slug ?? DEFAULT_PROJECT
+  const project = await getProject(auth.organizationId, projectId)
+  if (!project) {
+    return { error: `Unknown project "${projectId}" - create it first via POST /api/projects`, status: 400 }
+  }
+  return { projectId }
+}
+
+/**
+ * The project a read request is limited to: project-scoped keys only see
+ * their own project. Returns an error if another project was requested.
+ */
+export function readProjectScope(auth: ApiKeyAuth, requested?: string): { projectId?: string; error?: string } {
+  if (!auth.projectId) return { projectId: requested }
+  if (requested && requested !== auth.projectId) {
+    return { error: `This API key can only read project "${auth.projectId}"` }
+  }
+  return { projectId: auth.projectId }
+}
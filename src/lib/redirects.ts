@@ -0,0 +1,22 @@
+// lib/redirects.ts - Where the dashboard may send the browser after a form post
+
+/** Stand-in origin for resolving redirect targets */
+const REDIRECT_BASE = 'http://dashboard.invalid'
+
+/**
+ * A local path to redirect to after a form post (defaults to the dashboard).
+ * The value is resolved the way browsers and new URL() do, so values that
+ * land on another host ("/\evil.com", or "//evil.com" with a tab in the
+ * middle) fall back to "/".
+ */
+export function safeRedirectPath(value: unknown): string {
+  if (typeof value !== 'string' || !value.startsWith('/')) {
+    return '/'
+  }
+  try {
+    const url = new URL(value, REDIRECT_BASE)
+    return url.origin === REDIRECT_BASE ? url.pathname + url.search + url.hash : '/'
+  } catch {
+    return '/'
+  }
+}
@@ -0,0 +1,369 @@
+// lib/regression.ts - Detect regressions between two versions of a pipeline
+// Pure functions, safe to use from client components
+import { Execution } from "@/xRay"
+import { finalSelection, selectionDiff } from "./compare"
+import { extractEvaluations } from "./evaluations"
+
+/** Most selection changes listed in a report */
+const MAX_LISTED_CHANGES = 100
+
+/**
+ * When a candidate version counts as regressed:
+ * - maxSelectionChangeRate: share of matched inputs whose final selection changed
+ * - maxPassRateShift: absolute change in any filter's pass rate (0.1 = 10 points)
+ * - maxDurationIncrease: relative increase of the median execution duration
+ * - minEvaluations: filters evaluated fewer times than this (in either version) are not gated
+ */
+export interface RegressionThresholds {
+  maxSelectionChangeRate: number
+  maxPassRateShift: number
+  maxDurationIncrease: number
+  minEvaluations: number
+}
+
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  maxSelectionChangeRate: 0.1,
+  maxPassRateShift: 0.1,
+  maxDurationIncrease: 0.25,
+  minEvaluations: 5,
+}
+
+export interface RegressionOptions {
+  matchKey: string             // Metadata key identifying the input, e.g. "product_asin"
+  thresholds?: Partial<RegressionThresholds>
+}
+
+export interface SelectionChange {
+  key: string                  // The matchKey value
+  baselineExecutionId: string
+  candidateExecutionId: string
+  before: string[]
+  after: string[]
+  added: string[]
+  removed: string[]
+}
+
+export interface PassRate {
+  evaluated: number
+  passed: number
+  rate?: number                // passed / evaluated, undefined if nothing was evaluated
+}
+
+export interface FilterPassRateShift {
+  stepName: string
+  filter: string
+  baseline: PassRate
+  candidate: PassRate
+  shift?: number               // candidate.rate - baseline.rate
+}
+
+export interface DurationStats {
+  count: number
+  mean?: number
+  p50?: number
+  p95?: number
+}
+
+export interface DurationShift {
+  baseline: DurationStats
+  candidate: DurationStats
+  p50Delta?: number            // candidate.p50 - baseline.p50, in ms
+  p50Change?: number           // p50Delta relative to baseline.p50
+}
+
+export type RegressionKind = "coverage" | "selection" | "pass_rate" | "duration"
+
+export interface RegressionFinding {
+  kind: RegressionKind
+  message: string
+  value?: number
+  threshold?: number
+  stepName?: string
+  filter?: string
+}
+
+export interface RegressionReport {
+  baseline: string             // metadata.pipeline of each version
+  candidate: string
+  matchKey: string
+  thresholds: RegressionThresholds
+  matched: number              // Inputs run by both versions
+  unmatched: { baseline: number; candidate: number }
+  selection: { changed: number; rate?: number; changes: SelectionChange[] }
+  filters: FilterPassRateShift[]  // Largest shift first
+  durations: DurationShift & { steps: (DurationShift & { stepName: string })[] }
+  regressions: RegressionFinding[]
+  passed: boolean              // No regressions: safe to deploy the candidate version
+}
+
+/** Metadata key inputs are matched on when none is given */
+export const DEFAULT_MATCH_KEY = "product_asin"
+
+export type ParsedRegressionQuery =
+  | { baseline: string; candidate: string; options: RegressionOptions; error?: undefined }
+  | { baseline?: undefined; candidate?: undefined; options?: undefined; error: string }
+
+/**
+ * Parse a regression check from a query string:
+ *   baseline, candidate           metadata.pipeline of each version (required)
+ *   matchKey                      default product_asin
+ *   maxSelectionChangeRate, maxPassRateShift, maxDurationIncrease, minEvaluations
+ * Empty values are ignored, so plain HTML forms can submit every field.
+ */
+export function parseRegressionQuery(params: URLSearchParams): ParsedRegressionQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined
+
+  const baseline = get("baseline")
+  const candidate = get("candidate")
+  if (!baseline || !candidate) {
+    return { error: "baseline and candidate (metadata.pipeline values) are required" }
+  }
+
+  const thresholds: Partial<RegressionThresholds> = {}
+  for (const key of Object.keys(DEFAULT_REGRESSION_THRESHOLDS) as (keyof RegressionThresholds)[]) {
+    const value = get(key)
+    if (value === undefined) continue
+    const n = Number(value)
+    if (!Number.isFinite(n) || n < 0 || (key === "minEvaluations" && !Number.isInteger(n))) {
+      return { error: `${key} must be a non-negative ${key === "minEvaluations" ? "integer" : "number"}` }
+    }
+    thresholds[key] = n
+  }
+
+  return { baseline, candidate, options: { matchKey: get("matchKey") ?? DEFAULT_MATCH_KEY, thresholds } }
+}
+
+/**
+ * Compare a candidate pipeline version against a baseline over the inputs
+ * both have run, matched on metadata[matchKey] (the most recent execution
+ * per input is used). Reports final selection changes, per-filter pass
+ * rates and durations, and flags whatever crosses the thresholds.
+ */
+export function detectRegressions(
+  baselinePipeline: string,
+  baselineExecutions: Execution[],
+  candidatePipeline: string,
+  candidateExecutions: Execution[],
+  options: RegressionOptions
+): RegressionReport {
+  const thresholds = { ...DEFAULT_REGRESSION_THRESHOLDS, ...options.thresholds }
+  const baseline = latestByKey(baselineExecutions, options.matchKey)
+  const candidate = latestByKey(candidateExecutions, options.matchKey)
+
+  const pairs: [string, Execution, Execution][] = []
+  for (const [key, execution] of baseline) {
+    const other = candidate.get(key)
+    if (other) pairs.push([key, execution, other])
+  }
+
+  // Final selections
+  const changes: SelectionChange[] = []
+  for (const [key, a, b] of pairs) {
+    const diff = selectionDiff(finalSelection(a), finalSelection(b))
+    if (diff.added.length === 0 && diff.removed.length === 0) continue
+    changes.push({ key, baselineExecutionId: a.executionId, candidateExecutionId: b.executionId, ...diff })
+  }
+
+  // Filter pass rates
+  const ratesA = filterPassRates(pairs.map(([, a]) => a))
+  const ratesB = filterPassRates(pairs.map(([, , b]) => b))
+  const filters: FilterPassRateShift[] = []
+  for (const id of new Set([...ratesA.keys(), ...ratesB.keys()])) {
+    const a = withRate(ratesA.get(id)?.counts)
+    const b = withRate(ratesB.get(id)?.counts)
+    const { stepName, filter } = (ratesA.get(id) ?? ratesB.get(id))!
+    filters.push({
+      stepName,
+      filter,
+      baseline: a,
+      candidate: b,
+      shift: a.rate !== undefined && b.rate !== undefined ? b.rate - a.rate : undefined,
+    })
+  }
+  filters.sort((x, y) => Math.abs(y.shift ?? 0) - Math.abs(x.shift ?? 0))
+
+  // Durations
+  const durations = {
+    ...durationShift(
+      pairs.map(([, a]) => executionDuration(a)),
+      pairs.map(([, , b]) => executionDuration(b))
+    ),
+    steps: stepDurations(pairs),
+  }
+
+  const report: RegressionReport = {
+    baseline: baselinePipeline,
+    candidate: candidatePipeline,
+    matchKey: options.matchKey,
+    thresholds,
+    matched: pairs.length,
+    unmatched: { baseline: baseline.size - pairs.length, candidate: candidate.size - pairs.length },
+    selection: {
+      changed: changes.length,
+      rate: pairs.length > 0 ? changes.length / pairs.length : undefined,
+      changes: changes.slice(0, MAX_LISTED_CHANGES),
+    },
+    filters,
+    durations,
+    regressions: [],
+    passed: true,
+  }
+
+  report.regressions = findRegressions(report)
+  report.passed = report.regressions.length === 0
+  return report
+}
+
+function findRegressions(report: RegressionReport): RegressionFinding[] {
+  const { thresholds } = report
+  const findings: RegressionFinding[] = []
+
+  if (report.matched === 0) {
+    findings.push({
+      kind: "coverage",
+      message: `No ${report.matchKey} values were run by both versions`,
+      value: 0,
+    })
+    return findings
+  }
+
+  const rate = report.selection.rate!
+  if (rate > thresholds.maxSelectionChangeRate) {
+    findings.push({
+      kind: "selection",
+      message: `Final selection changed for ${report.selection.changed} of ${report.matched} inputs (${percent(rate)})`,
+      value: rate,
+      threshold: thresholds.maxSelectionChangeRate,
+    })
+  }
+
+  for (const f of report.filters) {
+    if (f.shift === undefined || Math.abs(f.shift) <= thresholds.maxPassRateShift) continue
+    if (f.baseline.evaluated < thresholds.minEvaluations || f.candidate.evaluated < thresholds.minEvaluations) continue
+    findings.push({
+      kind: "pass_rate",
+      message: `${f.stepName} / ${f.filter} pass rate went from ${percent(f.baseline.rate!)} to ${percent(f.candidate.rate!)}`,
+      value: f.shift,
+      threshold: thresholds.maxPassRateShift,
+      stepName: f.stepName,
+      filter: f.filter,
+    })
+  }
+
+  const change = report.durations.p50Change
+  if (change !== undefined && change > thresholds.maxDurationIncrease) {
+    findings.push({
+      kind: "duration",
+      message: `Median duration went from ${report.durations.baseline.p50}ms to ${report.durations.candidate.p50}ms (+${percent(change)})`,
+      value: change,
+      threshold: thresholds.maxDurationIncrease,
+    })
+  }
+
+  return findings
+}
+
+/** The most recent execution per metadata[key] value */
+function latestByKey(executions: Execution[], key: string): Map<string, Execution> {
+  const latest = new Map<string, Execution>()
+  for (const execution of executions) {
+    const value = execution.metadata?.[key]
+    if (value === undefined || value === null || value === "") continue
+
+    const id = String(value)
+    const current = latest.get(id)
+    if (!current || new Date(execution.startedAt) > new Date(current.startedAt)) {
+      latest.set(id, execution)
+    }
+  }
+  return latest
+}
+
+/**
+ * Evaluated/passed counts per step and filter, keyed "step/filter".
+ * Steps whose evaluations carry no filter results are counted as a whole,
+ * under the filter name "(evaluation)".
+ */
+function filterPassRates(executions: Execution[]) {
+  const rates = new Map<string, { stepName: string; filter: string; counts: { evaluated: number; passed: number } }>()
+
+  const count = (stepName: string, filter: string, passed: boolean) => {
+    const id = `${stepName}/${filter}`
+    if (!rates.has(id)) rates.set(id, { stepName, filter, counts: { evaluated: 0, passed: 0 } })
+    const { counts } = rates.get(id)!
+    counts.evaluated++
+    if (passed) counts.passed++
+  }
+
+  for (const execution of executions) {
+    for (const step of execution.steps) {
+      for (const evaluation of extractEvaluations(step)) {
+        if (evaluation.filterResults.length > 0) {
+          for (const result of evaluation.filterResults) count(step.name, result.filter, result.passed)
+        } else if (evaluation.passed !== undefined) {
+          count(step.name, "(evaluation)", evaluation.passed)
+        }
+      }
+    }
+  }
+  return rates
+}
+
+function withRate(counts?: { evaluated: number; passed: number }): PassRate {
+  if (!counts || counts.evaluated === 0) return { evaluated: 0, passed: 0 }
+  return { ...counts, rate: counts.passed / counts.evaluated }
+}
+
+function stepDurations(pairs: [string, Execution, Execution][]): (DurationShift & { stepName: string })[] {
+  const a = new Map<string, number[]>()
+  const b = new Map<string, number[]>()
+  const collect = (into: Map<string, number[]>, execution: Execution) => {
+    for (const step of execution.steps) {
+      if (step.durationMs === undefined) continue
+      if (!into.has(step.name)) into.set(step.name, [])
+      into.get(step.name)!.push(step.durationMs)
+    }
+  }
+  for (const [, x, y] of pairs) {
+    collect(a, x)
+    collect(b, y)
+  }
+
+  const names = Array.from(new Set([...a.keys(), ...b.keys()]))
+  return names.map(stepName => ({ stepName, ...durationShift(a.get(stepName) ?? [], b.get(stepName) ?? []) }))
+}
+
+function durationShift(before: (number | undefined)[], after: (number | undefined)[]): DurationShift {
+  const baseline = durationStats(before)
+  const candidate = durationStats(after)
+  const p50Delta = baseline.p50 !== undefined && candidate.p50 !== undefined ? candidate.p50 - baseline.p50 : undefined
+  return {
+    baseline,
+    candidate,
+    p50Delta,
+    p50Change: p50Delta !== undefined && baseline.p50! > 0 ? p50Delta / baseline.p50! : undefined,
+  }
+}
+
+function durationStats(values: (number | undefined)[]): DurationStats {
+  const sorted = values.filter((v): v is number => v !== undefined).sort((x, y) => x - y)
+  if (sorted.length === 0) return { count: 0 }
+
+  // Nearest-rank percentiles
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+  }
+}
+
+function executionDuration(execution: Execution): number | undefined {
+  if (!execution.endedAt) return undefined
+  return new Date(execution.endedAt).getTime() - new Date(execution.startedAt).getTime()
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
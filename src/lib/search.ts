@@ -0,0 +1,95 @@
+// lib/search.ts - Locate and highlight full-text search matches inside step data
+// Pure functions, safe to use from client components
+
+export type SearchField = "error" | "reasoning" | "input" | "output"
+
+/** Searchable step fields, in the order of their search weights (A-D) */
+export const SEARCH_FIELDS: SearchField[] = ["error", "reasoning", "input", "output"]
+
+export interface SearchMatch {
+  field: SearchField
+  path: string                 // JSON path within input/output, "" for error/reasoning
+  text: string                 // The matching value, trimmed around the first hit
+  highlights: [number, number][]  // [start, end) offsets into text
+}
+
+/** Characters of context kept on each side of the first hit */
+const SNIPPET_CONTEXT = 80
+
+/**
+ * Words a websearch-style query (as parsed by websearch_to_tsquery) looks for:
+ * quotes are dropped, OR and -negated words are ignored, and words are split
+ * on punctuation the way Postgres' parser does.
+ */
+export function searchTerms(query: string): string[] {
+  const terms = new Set<string>()
+
+  for (const token of query.replace(/"/g, " ").split(/\s+/)) {
+    if (!token || token.startsWith("-") || token.toLowerCase() === "or") continue
+    for (const word of token.split(/[^\p{L}\p{N}]+/u)) {
+      if (word) terms.add(word.toLowerCase())
+    }
+  }
+  return Array.from(terms)
+}
+
+/**
+ * Every value in a step field containing one of terms as a whole word,
+ * depth first, up to limit matches
+ */
+export function findMatches(field: SearchField, value: any, terms: string[], limit = 5): SearchMatch[] {
+  const matches: SearchMatch[] = []
+  if (terms.length === 0) return matches
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  )
+
+  const visit = (current: any, path: string) => {
+    if (matches.length >= limit) return
+
+    if (typeof current === "string" || typeof current === "number") {
+      const match = highlight(String(current), pattern)
+      if (match) matches.push({ field, path, ...match })
+      return
+    }
+    if (!current || typeof current !== "object") return
+
+    if (Array.isArray(current)) {
+      current.forEach((item, i) => visit(item, `${path}[${i}]`))
+    } else {
+      for (const [key, item] of Object.entries(current)) {
+        visit(item, path ? `${path}.${key}` : key)
+      }
+    }
+  }
+
+  visit(value, "")
+  return matches
+}
+
+function highlight(text: string, pattern: RegExp): Pick<SearchMatch, "text" | "highlights"> | null {
+  const ranges: [number, number][] = []
+  for (const match of text.matchAll(pattern)) {
+    ranges.push([match.index!, match.index! + match[0].length])
+  }
+  if (ranges.length === 0) return null
+
+  // Trim long values to a window around the first hit
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT)
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT)
+  const prefix = start > 0 ? "…" : ""
+  const shift = prefix.length - start
+
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? "…" : ""),
+    highlights: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift] as [number, number]),
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
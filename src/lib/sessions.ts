@@ -0,0 +1,211 @@
+// lib/sessions.ts - Dashboard login sessions (server-side, referenced by a cookie)
+import { createHash, randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
+import type { NextResponse } from 'next/server'
+import { prisma } from './prisma'
+import { getMemberRole, getUserOrganizations, Role } from './organizations'
+import { getMailer } from './mailer'
+
+/** Cookie holding the session token */
+export const SESSION_COOKIE = 'xray_session'
+
+/** How long a dashboard login lasts */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+/** How long an emailed sign-in link works */
+export const LOGIN_LINK_TTL_MS = 15 * 60 * 1000
+
+/**
+ * A signed-in dashboard user and the organization they are viewing
+ */
+export interface DashboardSession {
+  sessionId: string
+  userId: string
+  email: string
+  name: string | null
+  organizationId: string
+  organizationSlug: string
+  role: Role
+}
+
+/**
+ * SHA-256 (hex) of a session token - what is stored instead of the token
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex')
+}
+
+/**
+ * Start a session for a user viewing one of their organizations.
+ * Returns the token to put in the session cookie.
+ */
+export async function createSession(userId: string, organizationId: string) {
+  const token = randomBytes(32).toString('hex')
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, organizationId, expiresAt }
+  })
+  console.log(`[Sessions] ✅ Started session for ${userId}`)
+
+  return { token, expiresAt }
+}
+
+/**
+ * The session a token belongs to, or null if it is unknown or expired, or
+ * the user has left the session's organization
+ */
+export async function getSession(token: string): Promise<DashboardSession | null> {
+  if (!token) {
+    return null
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: { select: { email: true, name: true } },
+      organization: { select: { slug: true } }
+    }
+  })
+
+  if (!session || session.expiresAt <= new Date()) {
+    return null
+  }
+
+  const role = await getMemberRole(session.organizationId, session.userId)
+  if (!role) {
+    return null
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    email: session.user.email,
+    name: session.user.name,
+    organizationId: session.organizationId,
+    organizationSlug: session.organization.slug,
+    role
+  }
+}
+
+/**
+ * End a session (logout). Unknown tokens are ignored.
+ */
+export async function deleteSession(token: string) {
+  const { count } = await prisma.session.deleteMany({
+    where: { tokenHash: hashToken(token) }
+  })
+  if (count > 0) {
+    console.log(`[Sessions] ✅ Ended session`)
+  }
+}
+
+/**
+ * Put a new session's token in the response's session cookie
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt
+  })
+}
+
+/**
+ * Switch the organization a session is viewing
+ */
+export async function setSessionOrganization(sessionId: string, organizationId: string) {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { organizationId }
+  })
+}
+
+/**
+ * Email a single-use sign-in link to a user. baseUrl is the dashboard's
+ * origin, next the page to open after signing in. Unknown emails are only
+ * logged, so the response doesn't reveal who has an account.
+ */
+export async function sendLoginLink(email: string, baseUrl: string, next = '/') {
+  const user = await prisma.user.findUnique({
+    where: { email }
+  })
+
+  if (!user) {
+    console.log(`[Sessions] No account for ${email}, not sending a sign-in link`)
+    return
+  }
+
+  const token = randomBytes(32).toString('hex')
+  await prisma.loginToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS)
+    }
+  })
+
+  // The link opens a confirmation page; only its form uses the token, so
+  // mail scanners that prefetch links don't use it up
+  const link = new URL('/login/confirm', baseUrl)
+  link.searchParams.set('token', token)
+  link.searchParams.set('next', next)
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Sign in to X-Ray',
+    text: `Open this link to sign in to the X-Ray dashboard:\n\n${link}\n\nIt works once and expires in ${LOGIN_LINK_TTL_MS / 60000} minutes. If you didn't ask for it, ignore this email.`
+  })
+}
+
+/**
+ * Use a sign-in link's token. Returns a new session for its user in their
+ * first organization, or null if the link is unknown, used or expired.
+ */
+export async function signInWithLoginToken(token: string) {
+  const tokenHash = hashToken(token)
+
+  // Claiming the token in one statement makes each link work only once
+  const { count } = await prisma.loginToken.updateMany({
+    where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() }
+  })
+  if (count === 0) {
+    return null
+  }
+
+  const { userId } = await prisma.loginToken.findUniqueOrThrow({
+    where: { tokenHash },
+    select: { userId: true }
+  })
+
+  const [organization] = await getUserOrganizations(userId)
+  if (!organization) {
+    return null
+  }
+
+  return createSession(userId, organization.id)
+}
+
+/**
+ * The signed-in user of the current request (pages and route handlers), or null
+ */
+export async function getCurrentSession(): Promise<DashboardSession | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value
+  return token ? getSession(token) : null
+}
+
+/**
+ * The signed-in user of the current page; redirects to /login if there is
+ * none, coming back to next afterwards
+ */
+export async function requireSession(next: string): Promise<DashboardSession> {
+  const session = await getCurrentSession()
+  if (!session) {
+    redirect(`/login?next=${encodeURIComponent(next)}`)
+  }
+  return session
+}
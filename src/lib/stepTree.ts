@@ -0,0 +1,57 @@
+// lib/stepTree.ts - Arrange flat step lists into their parent/child hierarchy
+import { Step } from "@/xRay"
+
+export interface StepTreeNode {
+  step: Step
+  depth: number
+}
+
+/**
+ * Flatten steps depth-first so each sub-step directly follows its parent.
+ * Steps are pushed in completion order (children finish before parents),
+ * so siblings are re-ordered by start time. Steps whose parent is unknown
+ * are treated as top-level.
+ */
+export function flattenStepTree(steps: Step[]): StepTreeNode[] {
+  const ids = new Set(steps.map(s => s.id).filter(Boolean))
+  const children = new Map<string, Step[]>()
+  const roots: Step[] = []
+
+  const byStart = (a: Step, b: Step) =>
+    new Date(a.startedAt ?? a.timestamp).getTime() - new Date(b.startedAt ?? b.timestamp).getTime()
+
+  for (const step of steps) {
+    if (step.parentId && ids.has(step.parentId)) {
+      const siblings = children.get(step.parentId) ?? []
+      siblings.push(step)
+      children.set(step.parentId, siblings)
+    } else {
+      roots.push(step)
+    }
+  }
+
+  const result: StepTreeNode[] = []
+  const visited = new Set<Step>()
+
+  const visit = (step: Step, depth: number) => {
+    if (visited.has(step)) return
+    visited.add(step)
+    result.push({ step, depth })
+
+    const kids = step.id ? children.get(step.id) ?? [] : []
+    for (const child of [...kids].sort(byStart)) {
+      visit(child, depth + 1)
+    }
+  }
+
+  for (const root of [...roots].sort(byStart)) {
+    visit(root, 0)
+  }
+
+  // Malformed parent links (cycles) would leave steps unvisited - show them top-level
+  for (const step of steps) {
+    visit(step, 0)
+  }
+
+  return result
+}
@@ -1,12 +1,313 @@
 // lib/storage.ts - Database storage with Prisma
-import { Execution } from "@/xRay"
+import { randomUUID } from "crypto"
+import { Prisma } from "@prisma/client"
+import { Execution, Step } from "@/xRay"
+import { FilterResult, extractEvaluations } from "./evaluations"
+import { SEARCH_FIELDS, SearchField, SearchMatch, findMatches, searchTerms } from "./search"
 import { prisma } from "./prisma"
+import { DEFAULT_PROJECT } from "./projects"
+
+/** Executions written per transaction by saveExecutions() */
+const BATCH_CHUNK_SIZE = 100
+
+/** Who ingests an execution: the API key's user, acting within their organization */
+export interface ExecutionOwner {
+  userId: string
+  organizationId: string
+  projectId?: string           // Set for project-scoped keys: existing executions must be in it
+}
+
+export interface BatchSaveResult {
+  executionId: string
+  success: boolean
+  error?: string
+}
+
+/** Default and maximum page size for listExecutions() */
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+export type ExecutionSortField = "startedAt" | "durationMs"
+
+export interface ExecutionListQuery {
+  from?: Date                  // startedAt >= from
+  to?: Date                    // startedAt < to
+  projectId?: string
+  userId?: string              // Ingested by this user
+  metadata?: Record<string, string>         // Top-level metadata values that must match
+  excludeMetadata?: Record<string, string>  // Top-level metadata values that must not match
+  hasError?: boolean           // With (true) or without (false) a failed step
+  stepName?: string            // Has a step with this name
+  minDurationMs?: number
+  maxDurationMs?: number
+  sort?: ExecutionSortField    // Default startedAt
+  order?: "asc" | "desc"       // Default desc
+  cursor?: string              // nextCursor of the previous page
+  limit?: number
+}
+
+export interface ExecutionPage {
+  executions: Execution[]
+  nextCursor?: string          // Absent on the last page
+}
+
+export interface ExecutionStats {
+  total: number
+  successful: number           // Finished without a failed step
+  failed: number               // Has a failed step
+  running: number
+}
+
+export interface ProjectStats {
+  projectId: string            // Project slug
+  total: number
+  failed: number               // Has a failed step
+  lastStartedAt?: string
+}
+
+/** Default and maximum number of steps returned by searchSteps() */
+const DEFAULT_SEARCH_LIMIT = 50
+const MAX_SEARCH_LIMIT = 200
+
+/** Weight of each field in Step.searchVector (see the add_step_search migration) */
+const SEARCH_WEIGHTS: Record<SearchField, string> = { error: "a", reasoning: "b", input: "c", output: "d" }
+
+export interface StepSearchQuery {
+  text: string                 // websearch_to_tsquery syntax: words, "phrases", OR, -exclude
+  fields?: SearchField[]       // Default: all of error, reasoning, input, output
+  limit?: number
+}
+
+export interface StepSearchHit {
+  executionId: string
+  executionStartedAt: string
+  pipeline?: string
+  stepId: string
+  stepName: string
+  rank: number
+  matches: SearchMatch[]       // Where the terms occur, for highlighting
+}
+
+export type MetricsBucket = "hour" | "day"
+
+export interface MetricsQuery {
+  from: Date
+  to: Date
+  bucket: MetricsBucket        // Granularity of the execution volume series
+  projectId?: string
+  pipeline?: string            // metadata.pipeline
+}
+
+/** Duration percentiles in ms; undefined when nothing was timed */
+export interface LatencyPercentiles {
+  p50?: number
+  p95?: number
+  p99?: number
+}
+
+export interface StepMetrics extends LatencyPercentiles {
+  stepName: string
+  count: number
+  errors: number
+  errorRate: number            // errors / count
+  meanMs?: number
+}
+
+export interface VolumePoint {
+  bucket: string               // Start of the hour/day (UTC, ISO 8601)
+  executions: number
+  failed: number
+}
+
+export interface ExecutionMetrics {
+  totals: LatencyPercentiles & { executions: number; failed: number; errorRate: number }
+  steps: StepMetrics[]         // In pipeline order (average step position)
+  volume: VolumePoint[]        // One point per bucket in [from, to), including empty ones
+}
+
+/** Default and maximum number of rows returned by findEvaluations() */
+const DEFAULT_EVALUATION_LIMIT = 100
+const MAX_EVALUATION_LIMIT = 1000
+
+export interface EvaluationQuery {
+  candidateId?: string
+  executionId?: string
+  stepName?: string
+  passed?: boolean
+  failedFilter?: string        // Only candidates eliminated by this filter
+  limit?: number
+}
+
+export interface EvaluationRecord {
+  executionId: string
+  executionStartedAt: string
+  pipeline?: string
+  stepId: string
+  stepName: string
+  candidateId: string
+  label?: string
+  passed?: boolean
+  metrics?: Record<string, any>
+  reasoning?: string
+  filterResults: FilterResult[]
+}
+
+export interface CandidateRejectionSummary {
+  candidateId: string
+  evaluated: number
+  passed: number
+  rejected: number
+  rejectionsByFilter: { filter: string; count: number }[]  // Most frequent first
+  evaluations: EvaluationRecord[]                          // Most recent first
+}
+
+/**
+ * Parse an ISO timestamp from the SDK, ignoring missing or malformed values
+ */
+function toDate(value?: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Wall-clock duration of an execution, or null while it is still running
+ */
+function executionDuration(startedAt?: Date, completedAt?: Date | null): number | null {
+  if (!startedAt || !completedAt) return null
+  // durationMs is a 32-bit column
+  return Math.min(Math.max(0, completedAt.getTime() - startedAt.getTime()), 2147483647)
+}
+
+/**
+ * Map an SDK step to its database columns.
+ * position is the step's index within the execution.
+ */
+function toStepData(step: Step, position: number) {
+  return {
+    stepId: step.id,
+    parentStepId: step.parentId,
+    position,
+    name: step.name,
+    // Prisma rejects a bare null for Json columns: store an explicit null as
+    // JSON null, and absent values as SQL NULL
+    input: step.input === null ? Prisma.JsonNull : step.input,
+    output: step.output === null ? Prisma.JsonNull : step.output,
+    error: step.error,
+    metadata: step.metadata ?? undefined,
+    evaluations: step.evaluations ?? undefined,
+    filtersApplied: step.filters_applied ?? undefined,
+    timestamp: toDate(step.timestamp),
+    startedAt: toDate(step.startedAt),
+    endedAt: toDate(step.endedAt),
+    durationMs: step.durationMs,
+    reasoning: step.reasoning,
+  }
+}
+
+/**
+ * Map a Step row back to the SDK shape (the inverse of toStepData)
+ */
+function fromStepRow(step: any): Step {
+  return {
+    id: step.stepId || step.id,
+    parentId: step.parentStepId ?? undefined,
+    name: step.name,
+    // Prisma reads JSON null and SQL NULL alike as null, so an explicit null
+    // comes back as null (and so does an output that was never set)
+    input: step.input,
+    output: step.output,
+    error: step.error ?? undefined,
+    metadata: step.metadata ?? undefined,
+    evaluations: step.evaluations ?? undefined,
+    filters_applied: step.filtersApplied ?? undefined,
+    // Steps saved before timestamps were stored fall back to the insert time
+    timestamp: (step.timestamp ?? step.createdAt).toISOString(),
+    startedAt: step.startedAt?.toISOString(),
+    endedAt: step.endedAt?.toISOString(),
+    durationMs: step.durationMs ?? undefined,
+    reasoning: step.reasoning ?? undefined,
+  }
+}
+
+/**
+ * Map an Execution row (with its steps) back to the SDK shape
+ */
+function fromExecutionRow(exec: any): Execution {
+  return {
+    executionId: exec.executionId,
+    startedAt: exec.startedAt.toISOString(),
+    endedAt: exec.completedAt?.toISOString(),
+    metadata: exec.metadata as any,
+    finalOutcome: exec.finalOutcome as any,
+    steps: exec.steps.map(fromStepRow),
+  }
+}
+
+/**
+ * Rebuild the Evaluation rows for the steps matching where, from each
+ * step's evaluations (see extractEvaluations). Returns the number indexed.
+ */
+async function indexEvaluations(db: Prisma.TransactionClient, where: Prisma.StepWhereInput): Promise<number> {
+  const steps = await db.step.findMany({
+    where,
+    select: { id: true, executionId: true, name: true, evaluations: true, output: true },
+  })
+  if (steps.length === 0) return 0
+
+  await db.evaluation.deleteMany({ where: { stepId: { in: steps.map(s => s.id) } } })
+
+  const evaluations: Prisma.EvaluationCreateManyInput[] = []
+  const filterResults: Prisma.EvaluationFilterResultCreateManyInput[] = []
+
+  for (const row of steps) {
+    const step = { name: row.name, evaluations: row.evaluations, output: row.output } as Step
+    for (const evaluation of extractEvaluations(step)) {
+      // Generated here so filter results can reference it in the same createMany
+      const id = randomUUID()
+      evaluations.push({
+        id,
+        executionId: row.executionId,
+        stepId: row.id,
+        stepName: row.name,
+        candidateId: evaluation.candidateId,
+        label: evaluation.label,
+        passed: evaluation.passed,
+        metrics: evaluation.metrics,
+        reasoning: evaluation.reasoning,
+      })
+      filterResults.push(...evaluation.filterResults.map(result => ({ evaluationId: id, ...result })))
+    }
+  }
+
+  if (evaluations.length > 0) {
+    await db.evaluation.createMany({ data: evaluations })
+  }
+  if (filterResults.length > 0) {
+    await db.evaluationFilterResult.createMany({ data: filterResults })
+  }
+  return evaluations.length
+}
+
+/**
+ * Whether an existing execution may be written by owner: it must be in
+ * owner's organization and, for project-scoped keys, owner's project
+ */
+function ownsExecution(owner: ExecutionOwner, row: { organizationId: string; projectId: string }): boolean {
+  return row.organizationId === owner.organizationId && (!owner.projectId || row.projectId === owner.projectId)
+}
+
+/** Steps in execution order; createdAt/id order steps saved before positions existed */
+const STEP_ORDER = [{ position: 'asc' as const }, { createdAt: 'asc' as const }, { id: 'asc' as const }]
 
 /**
  * Save a complete execution to the database
  * This will create a new execution with all steps in a single transaction
+ * New executions are created in projectId; existing ones keep their project
+ * Throws if the executionId belongs to another organization (or, for a
+ * project-scoped owner, another project)
  */
-export async function saveExecution(execution: Execution, userId: string): Promise<void> {
+export async function saveExecution(execution: Execution, owner: ExecutionOwner, projectId = DEFAULT_PROJECT): Promise<void> {
   // Validate execution
   if (!execution || !execution.executionId || execution.steps.length === 0) {
     console.warn("Skipping invalid execution:", execution?.executionId)
@@ -19,54 +320,310 @@ export async function saveExecution(execution: Execution, userId: string): Promi
       where: { executionId: execution.executionId },
     })
 
+    if (existing && !ownsExecution(owner, existing)) {
+      throw new Error(`Execution ${execution.executionId} already exists`)
+    }
+
     if (existing) {
       // Update existing execution
-      await prisma.execution.update({
-        where: { executionId: execution.executionId },
-        data: {
-          metadata: execution.metadata || {},
-          finalOutcome: execution.finalOutcome || {},
-          completedAt: new Date(),
-          // Delete old steps and create new ones
-          steps: {
-            deleteMany: {},
-            create: execution.steps.map(step => ({
-              name: step.name,
-              input: step.input || {},
-              output: step.output || {},
-              error: step.error,
-              durationMs: step.durationMs,
-              reasoning: step.reasoning,
-            })),
+      await prisma.$transaction(async tx => {
+        const row = await tx.execution.update({
+          where: { executionId: execution.executionId },
+          data: {
+            metadata: execution.metadata || {},
+            finalOutcome: execution.finalOutcome || {},
+            // No endedAt means the execution is still running
+            completedAt: toDate(execution.endedAt) ?? null,
+            durationMs: executionDuration(existing.startedAt, toDate(execution.endedAt)),
+            // Delete old steps (and their evaluations) and create new ones
+            steps: {
+              deleteMany: {},
+              create: execution.steps.map((step, i) => toStepData(step, i)),
+            },
           },
-        },
+        })
+        await indexEvaluations(tx, { executionId: row.id })
       })
       console.log(`[Storage] ✅ Updated execution ${execution.executionId}`)
     } else {
       // Create new execution with steps
-      await prisma.execution.create({
-        data: {
+      await prisma.$transaction(async tx => {
+        const row = await tx.execution.create({
+          data: {
+            executionId: execution.executionId,
+            userId: owner.userId,
+            organizationId: owner.organizationId,
+            projectId,
+            metadata: execution.metadata || {},
+            finalOutcome: execution.finalOutcome || {},
+            startedAt: toDate(execution.startedAt),
+            completedAt: toDate(execution.endedAt),
+            durationMs: executionDuration(toDate(execution.startedAt), toDate(execution.endedAt)),
+            steps: {
+              create: execution.steps.map((step, i) => toStepData(step, i)),
+            },
+          },
+        })
+        await indexEvaluations(tx, { executionId: row.id })
+      })
+      console.log(`[Storage] ✅ Created execution ${execution.executionId}`)
+    }
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to save execution ${execution.executionId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Save many executions with as few round trips as possible.
+ * Executions are written in chunks, one transaction per chunk; if a chunk
+ * fails, its executions are retried one by one so a single bad execution
+ * only fails itself. Results are returned in input order.
+ * projectIds[i] is the project new execution i is created in (default: "default").
+ */
+export async function saveExecutions(
+  executions: Execution[],
+  owner: ExecutionOwner,
+  projectIds: string[] = []
+): Promise<BatchSaveResult[]> {
+  const results: BatchSaveResult[] = []
+  const items = executions.map((execution, i) => ({ execution, projectId: projectIds[i] ?? DEFAULT_PROJECT }))
+
+  for (let i = 0; i < items.length; i += BATCH_CHUNK_SIZE) {
+    const chunk = items.slice(i, i + BATCH_CHUNK_SIZE)
+
+    try {
+      await saveExecutionChunk(chunk, owner)
+      results.push(...chunk.map(({ execution }) => ({ executionId: execution.executionId, success: true })))
+      console.log(`[Storage] ✅ Saved batch of ${chunk.length} executions`)
+    } catch (error) {
+      console.warn(`[Storage] Batch of ${chunk.length} executions failed, saving individually:`, error)
+
+      for (const item of chunk) {
+        const { execution } = item
+        try {
+          await saveExecutionChunk([item], owner)
+          results.push({ executionId: execution.executionId, success: true })
+        } catch (itemError: any) {
+          console.error(`[Storage] ❌ Failed to save execution ${execution.executionId}:`, itemError)
+          results.push({ executionId: execution.executionId, success: false, error: itemError.message || 'Failed to save execution' })
+        }
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Write a chunk of executions (with distinct executionIds) in one transaction:
+ * bulk-insert new executions, update existing ones, then replace all their steps
+ */
+async function saveExecutionChunk(
+  items: { execution: Execution; projectId: string }[],
+  owner: ExecutionOwner
+): Promise<void> {
+  const executions = items.map(item => item.execution)
+  const executionIds = executions.map(e => e.executionId)
+
+  await prisma.$transaction(async tx => {
+    const existing = await tx.execution.findMany({
+      where: { executionId: { in: executionIds } },
+      select: { id: true, executionId: true, organizationId: true, projectId: true, startedAt: true },
+    })
+    const existingByExecutionId = new Map(existing.map(e => [e.executionId, e]))
+
+    for (const row of existing) {
+      if (!ownsExecution(owner, row)) {
+        throw new Error(`Execution ${row.executionId} already exists`)
+      }
+    }
+
+    const toCreate = items.filter(({ execution }) => !existingByExecutionId.has(execution.executionId))
+    const toUpdate = executions.filter(e => existingByExecutionId.has(e.executionId))
+
+    if (toCreate.length > 0) {
+      await tx.execution.createMany({
+        data: toCreate.map(({ execution, projectId }) => ({
           executionId: execution.executionId,
-          userId: userId,
-          projectId: execution.metadata?.projectId || "default",
+          userId: owner.userId,
+          organizationId: owner.organizationId,
+          projectId,
           metadata: execution.metadata || {},
           finalOutcome: execution.finalOutcome || {},
-          steps: {
-            create: execution.steps.map(step => ({
-              name: step.name,
-              input: step.input || {},
-              output: step.output || {},
-              error: step.error,
-              durationMs: step.durationMs,
-              reasoning: step.reasoning,
-            })),
-          },
+          startedAt: toDate(execution.startedAt),
+          completedAt: toDate(execution.endedAt),
+          durationMs: executionDuration(toDate(execution.startedAt), toDate(execution.endedAt)),
+        })),
+      })
+    }
+
+    for (const execution of toUpdate) {
+      await tx.execution.update({
+        where: { executionId: execution.executionId },
+        data: {
+          metadata: execution.metadata || {},
+          finalOutcome: execution.finalOutcome || {},
+          // No endedAt means the execution is still running
+          completedAt: toDate(execution.endedAt) ?? null,
+          durationMs: executionDuration(existingByExecutionId.get(execution.executionId)!.startedAt, toDate(execution.endedAt)),
         },
       })
-      console.log(`[Storage] ✅ Created execution ${execution.executionId}`)
     }
+
+    if (toUpdate.length > 0) {
+      await tx.step.deleteMany({
+        where: { executionId: { in: toUpdate.map(e => existingByExecutionId.get(e.executionId)!.id) } },
+      })
+    }
+
+    const rows = await tx.execution.findMany({
+      where: { executionId: { in: executionIds } },
+      select: { id: true, executionId: true },
+    })
+    const internalIds = new Map(rows.map(r => [r.executionId, r.id]))
+
+    await tx.step.createMany({
+      data: executions.flatMap(execution =>
+        execution.steps.map((step, i) => ({
+          executionId: internalIds.get(execution.executionId)!,
+          ...toStepData(step, i),
+        }))
+      ),
+    })
+
+    await indexEvaluations(tx, { executionId: { in: rows.map(r => r.id) } })
+  })
+}
+
+/**
+ * Open an execution for incremental ingestion: it shows as running until
+ * closeExecution() is called, and steps are added with appendSteps().
+ * Re-opening an existing execution is a no-op.
+ * The execution is created in projectId.
+ * Returns false if the executionId belongs to another organization (or, for
+ * a project-scoped owner, another project).
+ */
+export async function openExecution(
+  execution: { executionId: string; startedAt?: string; metadata?: Record<string, any> },
+  owner: ExecutionOwner,
+  projectId = DEFAULT_PROJECT
+): Promise<boolean> {
+  try {
+    const existing = await prisma.execution.findUnique({
+      where: { executionId: execution.executionId },
+      select: { organizationId: true, projectId: true },
+    })
+
+    if (existing) {
+      return ownsExecution(owner, existing)
+    }
+
+    await prisma.execution.create({
+      data: {
+        executionId: execution.executionId,
+        userId: owner.userId,
+        organizationId: owner.organizationId,
+        projectId,
+        metadata: execution.metadata || {},
+        startedAt: toDate(execution.startedAt),
+      },
+    })
+    console.log(`[Storage] ✅ Opened execution ${execution.executionId}`)
+    return true
   } catch (error) {
-    console.error(`[Storage] ❌ Failed to save execution ${execution.executionId}:`, error)
+    console.error(`[Storage] ❌ Failed to open execution ${execution.executionId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Append finished steps to an open execution.
+ * Steps whose ID was already appended are skipped, so retried requests are safe.
+ * Returns the number of steps added, or null if the execution doesn't exist
+ * or belongs to another organization (or, when projectId is given, to
+ * another project).
+ */
+export async function appendSteps(
+  executionId: string,
+  steps: Step[],
+  organizationId: string,
+  projectId?: string
+): Promise<number | null> {
+  try {
+    const exec = await prisma.execution.findUnique({
+      where: { executionId },
+      select: { id: true, organizationId: true, projectId: true },
+    })
+
+    if (!exec || exec.organizationId !== organizationId || (projectId && exec.projectId !== projectId)) {
+      return null
+    }
+
+    const added = await prisma.$transaction(async tx => {
+      // Lock the execution so concurrent appends (SDK retries, overlapping
+      // exporter batches) see each other's steps and don't reuse positions
+      await tx.$queryRaw`SELECT id FROM "Execution" WHERE id = ${exec.id} FOR UPDATE`
+
+      const existing = await tx.step.findMany({
+        where: { executionId: exec.id },
+        select: { stepId: true, position: true },
+      })
+      const known = new Set(existing.map(s => s.stepId).filter(Boolean))
+      const fresh = steps.filter(step => !step.id || !known.has(step.id))
+      const nextPosition = existing.reduce((max, s) => Math.max(max, s.position + 1), 0)
+
+      if (fresh.length > 0) {
+        await tx.step.createMany({
+          data: fresh.map((step, i) => ({ executionId: exec.id, ...toStepData(step, nextPosition + i) })),
+        })
+        await indexEvaluations(tx, { executionId: exec.id, position: { gte: nextPosition } })
+      }
+      return fresh.length
+    })
+
+    console.log(`[Storage] ✅ Appended ${added} step(s) to ${executionId}`)
+    return added
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to append steps to ${executionId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Mark an open execution as finished.
+ * Returns false if the execution doesn't exist or belongs to another
+ * organization (or, when projectId is given, to another project).
+ */
+export async function closeExecution(
+  executionId: string,
+  result: { endedAt?: string; finalOutcome?: any },
+  organizationId: string,
+  projectId?: string
+): Promise<boolean> {
+  try {
+    const exec = await prisma.execution.findUnique({
+      where: { executionId },
+      select: { organizationId: true, projectId: true, startedAt: true },
+    })
+
+    if (!exec || exec.organizationId !== organizationId || (projectId && exec.projectId !== projectId)) {
+      return false
+    }
+
+    const completedAt = toDate(result.endedAt) ?? new Date()
+    await prisma.execution.update({
+      where: { executionId },
+      data: {
+        finalOutcome: result.finalOutcome || {},
+        completedAt,
+        durationMs: executionDuration(exec.startedAt, completedAt),
+      },
+    })
+    console.log(`[Storage] ✅ Closed execution ${executionId}`)
+    return true
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to close execution ${executionId}:`, error)
     throw error
   }
 }
@@ -75,15 +632,13 @@ export async function saveExecution(execution: Execution, userId: string): Promi
  * Load all executions from the database
  * Ordered by most recent first
  */
-export async function loadExecutions(userId?: string): Promise<Execution[]> {
+export async function loadExecutions(organizationId?: string): Promise<Execution[]> {
   try {
     const executions = await prisma.execution.findMany({
-      where: userId ? { userId } : {},
+      where: organizationId ? { organizationId } : {},
       include: {
         steps: {
-          orderBy: {
-            createdAt: 'asc',
-          },
+          orderBy: STEP_ORDER,
         },
       },
       orderBy: {
@@ -92,21 +647,7 @@ export async function loadExecutions(userId?: string): Promise<Execution[]> {
       take: 100, // Limit to last 100 executions
     })
 
-    return executions.map((exec: any) => ({
-      executionId: exec.executionId,
-      startedAt: exec.startedAt.toISOString(),
-      endedAt: exec.completedAt?.toISOString(),
-      metadata: exec.metadata as any,
-      finalOutcome: exec.finalOutcome as any,
-      steps: exec.steps.map((step: any) => ({
-        name: step.name,
-        input: step.input as any,
-        output: step.output as any,
-        error: step.error || undefined,
-        durationMs: step.durationMs || undefined,
-        reasoning: step.reasoning || undefined,
-      })),
-    }))
+    return executions.map(fromExecutionRow)
   } catch (error) {
     console.error("[Storage] ❌ Failed to load executions:", error)
     return []
@@ -116,22 +657,311 @@ export async function loadExecutions(userId?: string): Promise<Execution[]> {
 /**
  * Get all executions (alias for loadExecutions)
  */
-export async function getExecutions(userId?: string): Promise<Execution[]> {
-  return loadExecutions(userId)
+export async function getExecutions(organizationId?: string): Promise<Execution[]> {
+  return loadExecutions(organizationId)
+}
+
+/**
+ * List executions matching query, one page at a time.
+ * Pass nextCursor back as cursor to fetch the following page.
+ */
+export async function listExecutions(query: ExecutionListQuery, organizationId?: string): Promise<ExecutionPage> {
+  try {
+    const limit = Math.min(query.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+    const order = query.order ?? "desc"
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined
+
+    const rows = await prisma.execution.findMany({
+      where: executionWhere(query, organizationId),
+      include: {
+        steps: {
+          orderBy: STEP_ORDER,
+        },
+      },
+      orderBy: [
+        query.sort === "durationMs"
+          ? { durationMs: { sort: order, nulls: "last" } }
+          : { startedAt: order },
+        // Unique tie-breaker so cursors are stable
+        { id: order },
+      ],
+      // Fetch one extra row to know whether there is another page
+      take: limit + 1,
+      ...(cursor && { cursor: { executionId: cursor }, skip: 1 }),
+    })
+
+    const page = rows.slice(0, limit)
+    return {
+      executions: page.map(fromExecutionRow),
+      nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1].executionId) : undefined,
+    }
+  } catch (error) {
+    console.error("[Storage] ❌ Failed to list executions:", error)
+    throw error
+  }
+}
+
+/**
+ * Counts for every execution matching query (cursor, sort and limit are ignored)
+ */
+export async function getExecutionStats(query: ExecutionListQuery, organizationId?: string): Promise<ExecutionStats> {
+  const where = executionWhere(query, organizationId)
+  const hasFailedStep: Prisma.ExecutionWhereInput = { steps: { some: { error: { not: null } } } }
+
+  const [total, successful, failed, running] = await Promise.all([
+    prisma.execution.count({ where }),
+    prisma.execution.count({ where: { AND: [where, { completedAt: { not: null } }, { NOT: hasFailedStep }] } }),
+    prisma.execution.count({ where: { AND: [where, hasFailedStep] } }),
+    prisma.execution.count({ where: { AND: [where, { completedAt: null }] } }),
+  ])
+
+  return { total, successful, failed, running }
+}
+
+/**
+ * Execution counts per project (by slug), most recently active first
+ */
+export async function getProjectStats(organizationId?: string): Promise<ProjectStats[]> {
+  const hasFailedStep: Prisma.ExecutionWhereInput = { steps: { some: { error: { not: null } } } }
+
+  const [totals, failed] = await Promise.all([
+    prisma.execution.groupBy({
+      by: ['projectId'],
+      where: { organizationId },
+      _count: { _all: true },
+      _max: { startedAt: true },
+    }),
+    prisma.execution.groupBy({
+      by: ['projectId'],
+      where: { organizationId, ...hasFailedStep },
+      _count: { _all: true },
+    }),
+  ])
+
+  const failedByProject = new Map(failed.map(row => [row.projectId, row._count._all]))
+  return totals
+    .map(row => ({
+      projectId: row.projectId,
+      total: row._count._all,
+      failed: failedByProject.get(row.projectId) ?? 0,
+      lastStartedAt: row._max.startedAt?.toISOString(),
+    }))
+    .sort((a, b) => (b.lastStartedAt ?? '').localeCompare(a.lastStartedAt ?? ''))
+}
+
+function executionWhere(query: ExecutionListQuery, organizationId?: string): Prisma.ExecutionWhereInput {
+  const conditions: Prisma.ExecutionWhereInput[] = []
+
+  for (const [key, value] of Object.entries(query.metadata ?? {})) {
+    conditions.push(metadataEquals(key, value))
+  }
+  for (const [key, value] of Object.entries(query.excludeMetadata ?? {})) {
+    conditions.push(metadataNotEquals(key, value))
+  }
+  if (query.hasError !== undefined) {
+    const failedStep = { error: { not: null } }
+    conditions.push({ steps: query.hasError ? { some: failedStep } : { none: failedStep } })
+  }
+  if (query.stepName) {
+    conditions.push({ steps: { some: { name: query.stepName } } })
+  }
+
+  return {
+    organizationId,
+    projectId: query.projectId,
+    userId: query.userId,
+    startedAt: query.from || query.to ? { gte: query.from, lt: query.to } : undefined,
+    durationMs: query.minDurationMs !== undefined || query.maxDurationMs !== undefined
+      ? { gte: query.minDurationMs, lte: query.maxDurationMs }
+      : undefined,
+    AND: conditions,
+  }
+}
+
+/**
+ * Match a top-level metadata value given as a string from a query string.
+ * "3" and "true" also match the number 3 and the boolean true.
+ */
+function metadataEquals(key: string, value: string): Prisma.ExecutionWhereInput {
+  const candidates: Prisma.InputJsonValue[] = [value]
+  try {
+    const parsed = JSON.parse(value)
+    if (typeof parsed === "number" || typeof parsed === "boolean") candidates.push(parsed)
+  } catch {
+    // Not JSON - match as a string only
+  }
+  return { OR: candidates.map(equals => ({ metadata: { path: [key], equals } })) }
+}
+
+/**
+ * The opposite of metadataEquals(). Executions without metadata, or without
+ * the key, match too: in Postgres the JSON path comparison is NULL for them,
+ * and NOT NULL is still NULL.
+ */
+function metadataNotEquals(key: string, value: string): Prisma.ExecutionWhereInput {
+  return {
+    OR: [
+      { metadata: { equals: Prisma.DbNull } },
+      { metadata: { path: [key], equals: Prisma.AnyNull } },
+      { NOT: metadataEquals(key, value) },
+    ],
+  }
+}
+
+function encodeCursor(executionId: string): string {
+  return Buffer.from(executionId, "utf-8").toString("base64url")
+}
+
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, "base64url").toString("utf-8")
+}
+
+/** Most executions per pipeline version loaded by getPipelineExecutions() */
+const MAX_PIPELINE_EXECUTIONS = 500
+
+/**
+ * Finished executions of one pipeline version (metadata.pipeline), most
+ * recent first, with their steps. Used for regression analysis.
+ */
+export async function getPipelineExecutions(pipeline: string, organizationId?: string, projectId?: string): Promise<Execution[]> {
+  try {
+    const executions = await prisma.execution.findMany({
+      where: {
+        organizationId,
+        projectId,
+        completedAt: { not: null },
+        metadata: { path: ['pipeline'], equals: pipeline },
+      },
+      include: {
+        steps: {
+          orderBy: STEP_ORDER,
+        },
+      },
+      orderBy: {
+        startedAt: 'desc',
+      },
+      take: MAX_PIPELINE_EXECUTIONS,
+    })
+
+    return executions.map(fromExecutionRow)
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to load executions for pipeline ${pipeline}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Latency percentiles, error rates and execution volume for executions
+ * started in [from, to), aggregated by Postgres
+ */
+export async function getMetrics(query: MetricsQuery, organizationId?: string): Promise<ExecutionMetrics> {
+  const where = metricsWhere(query, organizationId)
+  const failed = Prisma.sql`EXISTS (SELECT 1 FROM "Step" f WHERE f."executionId" = e."id" AND f."error" IS NOT NULL)`
+  const interval = `1 ${query.bucket}`
+
+  try {
+    const [totals, steps, volume] = await Promise.all([
+      prisma.$queryRaw<any[]>`
+        SELECT COUNT(*)::int AS "executions",
+               (COUNT(*) FILTER (WHERE ${failed}))::int AS "failed",
+               percentile_cont(ARRAY[0.5, 0.95, 0.99]) WITHIN GROUP (ORDER BY e."durationMs") AS "percentiles"
+        FROM "Execution" e
+        WHERE ${where}
+      `,
+      prisma.$queryRaw<any[]>`
+        SELECT s."name" AS "stepName",
+               COUNT(*)::int AS "count",
+               (COUNT(*) FILTER (WHERE s."error" IS NOT NULL))::int AS "errors",
+               AVG(s."durationMs") AS "mean",
+               percentile_cont(ARRAY[0.5, 0.95, 0.99]) WITHIN GROUP (ORDER BY s."durationMs") AS "percentiles"
+        FROM "Step" s
+        JOIN "Execution" e ON e."id" = s."executionId"
+        WHERE ${where}
+        GROUP BY s."name"
+        ORDER BY AVG(s."position"), s."name"
+      `,
+      prisma.$queryRaw<any[]>`
+        SELECT b."bucket",
+               COUNT(e."id")::int AS "executions",
+               (COUNT(e."id") FILTER (WHERE ${failed}))::int AS "failed"
+        FROM generate_series(
+               date_trunc(${query.bucket}, ${query.from}::timestamp),
+               ${query.to}::timestamp - interval '1 millisecond',
+               ${interval}::interval
+             ) AS b("bucket")
+        LEFT JOIN "Execution" e
+          ON date_trunc(${query.bucket}, e."startedAt") = b."bucket" AND ${where}
+        GROUP BY b."bucket"
+        ORDER BY b."bucket"
+      `,
+    ])
+
+    const total = totals[0]
+    return {
+      totals: {
+        executions: total.executions,
+        failed: total.failed,
+        errorRate: total.executions > 0 ? total.failed / total.executions : 0,
+        ...toPercentiles(total.percentiles),
+      },
+      steps: steps.map(row => ({
+        stepName: row.stepName,
+        count: row.count,
+        errors: row.errors,
+        errorRate: row.count > 0 ? row.errors / row.count : 0,
+        meanMs: row.mean === null ? undefined : Math.round(Number(row.mean)),
+        ...toPercentiles(row.percentiles),
+      })),
+      volume: volume.map(row => ({
+        // Timestamps are stored as UTC without a zone
+        bucket: new Date(row.bucket).toISOString(),
+        executions: row.executions,
+        failed: row.failed,
+      })),
+    }
+  } catch (error) {
+    console.error("[Storage] ❌ Failed to compute metrics:", error)
+    throw error
+  }
+}
+
+/**
+ * Distinct metadata.pipeline values, for filter pickers
+ */
+export async function listPipelines(organizationId?: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ pipeline: string }[]>`
+    SELECT DISTINCT e."metadata"->>'pipeline' AS "pipeline"
+    FROM "Execution" e
+    WHERE e."metadata"->>'pipeline' IS NOT NULL
+      ${organizationId ? Prisma.sql`AND e."organizationId" = ${organizationId}` : Prisma.empty}
+    ORDER BY "pipeline"
+  `
+  return rows.map(row => row.pipeline)
+}
+
+function metricsWhere(query: MetricsQuery, organizationId?: string): Prisma.Sql {
+  return Prisma.sql`e."startedAt" >= ${query.from} AND e."startedAt" < ${query.to}
+    ${organizationId ? Prisma.sql`AND e."organizationId" = ${organizationId}` : Prisma.empty}
+    ${query.projectId ? Prisma.sql`AND e."projectId" = ${query.projectId}` : Prisma.empty}
+    ${query.pipeline ? Prisma.sql`AND e."metadata"->>'pipeline' = ${query.pipeline}` : Prisma.empty}`
+}
+
+/** percentile_cont(ARRAY[0.5, 0.95, 0.99]) result, rounded to whole ms */
+function toPercentiles(values: (number | null)[] | null): LatencyPercentiles {
+  const at = (i: number) => (values?.[i] == null ? undefined : Math.round(values[i]!))
+  return { p50: at(0), p95: at(1), p99: at(2) }
 }
 
 /**
  * Get a single execution by ID
  */
-export async function getExecutionById(id: string, userId?: string): Promise<Execution | undefined> {
+export async function getExecutionById(id: string, organizationId?: string, projectId?: string): Promise<Execution | undefined> {
   try {
     const exec = await prisma.execution.findUnique({
       where: { executionId: id },
       include: {
         steps: {
-          orderBy: {
-            createdAt: 'asc',
-          },
+          orderBy: STEP_ORDER,
         },
       },
     })
@@ -140,26 +970,16 @@ export async function getExecutionById(id: string, userId?: string): Promise<Exe
       return undefined
     }
 
-    // If userId provided, verify ownership
-    if (userId && exec.userId !== userId) {
+    // If organizationId provided, verify ownership
+    if (organizationId && exec.organizationId !== organizationId) {
       return undefined // Unauthorized
     }
-
-    return {
-      executionId: exec.executionId,
-      startedAt: exec.startedAt.toISOString(),
-      endedAt: exec.completedAt?.toISOString(),
-      metadata: exec.metadata as any,
-      finalOutcome: exec.finalOutcome as any,
-      steps: exec.steps.map((step: any) => ({
-        name: step.name,
-        input: step.input as any,
-        output: step.output as any,
-        error: step.error || undefined,
-        durationMs: step.durationMs || undefined,
-        reasoning: step.reasoning || undefined,
-      })),
+    // Project-scoped keys only see their project
+    if (projectId && exec.projectId !== projectId) {
+      return undefined
     }
+
+    return fromExecutionRow(exec)
   } catch (error) {
     console.error(`[Storage] ❌ Failed to get execution ${id}:`, error)
     return undefined
@@ -169,10 +989,11 @@ export async function getExecutionById(id: string, userId?: string): Promise<Exe
 /**
  * Atomically update a single step's reasoning field
  * No mutex needed - database handles locking automatically
+ * stepId is the SDK step ID (or the row ID for steps saved without one)
  */
 export async function updateStepReasoning(
   executionId: string,
-  stepName: string,
+  stepId: string,
   reasoning: string
 ): Promise<void> {
   try {
@@ -186,9 +1007,9 @@ export async function updateStepReasoning(
       throw new Error(`Execution ${executionId} not found`)
     }
 
-    const step = execution.steps.find((s: any) => s.name === stepName)
+    const step = execution.steps.find((s: any) => s.stepId === stepId || s.id === stepId)
     if (!step) {
-      throw new Error(`Step ${stepName} not found in execution ${executionId}`)
+      throw new Error(`Step ${stepId} not found in execution ${executionId}`)
     }
 
     // Update only the reasoning field
@@ -197,9 +1018,168 @@ export async function updateStepReasoning(
       data: { reasoning },
     })
 
-    console.log(`[Storage] ✅ Updated reasoning for ${executionId}/${stepName}`)
+    console.log(`[Storage] ✅ Updated reasoning for ${executionId}/${step.name} (${stepId})`)
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to update reasoning for ${executionId}/${stepId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Find candidate evaluations across executions, most recent execution first.
+ * organizationId restricts results to that organization's executions, and
+ * projectId to one of its projects.
+ */
+export async function findEvaluations(query: EvaluationQuery, organizationId?: string, projectId?: string): Promise<EvaluationRecord[]> {
+  try {
+    const rows = await prisma.evaluation.findMany({
+      where: evaluationWhere(query, organizationId, projectId),
+      include: {
+        filterResults: { orderBy: { id: 'asc' } },
+        execution: { select: { executionId: true, startedAt: true, metadata: true } },
+        step: { select: { id: true, stepId: true } },
+      },
+      orderBy: [{ execution: { startedAt: 'desc' } }, { id: 'asc' }],
+      take: Math.min(query.limit || DEFAULT_EVALUATION_LIMIT, MAX_EVALUATION_LIMIT),
+    })
+
+    return rows.map(row => ({
+      executionId: row.execution.executionId,
+      executionStartedAt: row.execution.startedAt.toISOString(),
+      pipeline: (row.execution.metadata as any)?.pipeline,
+      stepId: row.step.stepId || row.step.id,
+      stepName: row.stepName,
+      candidateId: row.candidateId,
+      label: row.label ?? undefined,
+      passed: row.passed ?? undefined,
+      metrics: (row.metrics as any) ?? undefined,
+      reasoning: row.reasoning ?? undefined,
+      filterResults: row.filterResults.map(r => ({
+        filter: r.filter,
+        passed: r.passed,
+        detail: r.detail ?? undefined,
+      })),
+    }))
+  } catch (error) {
+    console.error("[Storage] ❌ Failed to find evaluations:", error)
+    throw error
+  }
+}
+
+/**
+ * Why was a candidate rejected? Counts its evaluations across all executions
+ * and which filters eliminated it, plus the most recent evaluations.
+ */
+export async function getCandidateRejections(
+  candidateId: string,
+  organizationId?: string,
+  projectId?: string,
+  limit = DEFAULT_EVALUATION_LIMIT
+): Promise<CandidateRejectionSummary> {
+  try {
+    const where = evaluationWhere({ candidateId }, organizationId, projectId)
+
+    const [evaluated, passed, rejected, byFilter, evaluations] = await Promise.all([
+      prisma.evaluation.count({ where }),
+      prisma.evaluation.count({ where: { ...where, passed: true } }),
+      prisma.evaluation.count({ where: { ...where, passed: false } }),
+      prisma.evaluationFilterResult.groupBy({
+        by: ['filter'],
+        where: { passed: false, evaluation: where },
+        _count: { _all: true },
+      }),
+      findEvaluations({ candidateId, limit }, organizationId, projectId),
+    ])
+
+    return {
+      candidateId,
+      evaluated,
+      passed,
+      rejected,
+      rejectionsByFilter: byFilter
+        .map(group => ({ filter: group.filter, count: group._count._all }))
+        .sort((a, b) => b.count - a.count),
+      evaluations,
+    }
+  } catch (error) {
+    console.error(`[Storage] ❌ Failed to load rejections for candidate ${candidateId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Rebuild the evaluation index from stored steps, e.g. for steps saved
+ * before evaluations were indexed. Returns the number of evaluations indexed.
+ */
+export async function reindexEvaluations(): Promise<number> {
+  const executions = await prisma.execution.findMany({ select: { id: true } })
+  let indexed = 0
+
+  for (const { id } of executions) {
+    indexed += await prisma.$transaction(tx => indexEvaluations(tx, { executionId: id }))
+  }
+
+  console.log(`[Storage] ✅ Indexed ${indexed} evaluations across ${executions.length} executions`)
+  return indexed
+}
+
+function evaluationWhere(query: EvaluationQuery, organizationId?: string, projectId?: string): Prisma.EvaluationWhereInput {
+  return {
+    candidateId: query.candidateId,
+    stepName: query.stepName,
+    passed: query.passed,
+    execution: {
+      executionId: query.executionId,
+      organizationId,
+      projectId,
+    },
+    filterResults: query.failedFilter
+      ? { some: { filter: query.failedFilter, passed: false } }
+      : undefined,
+  }
+}
+
+/**
+ * Full-text search over step errors, reasoning, inputs and outputs, best
+ * matches first. organizationId restricts results to that organization's
+ * executions, and projectId to one of its projects.
+ */
+export async function searchSteps(query: StepSearchQuery, organizationId?: string, projectId?: string): Promise<StepSearchHit[]> {
+  const fields = query.fields?.length ? query.fields : SEARCH_FIELDS
+  const limit = Math.min(query.limit || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT)
+
+  // Restrict matching to the requested fields by their weights
+  const vector = fields.length < SEARCH_FIELDS.length
+    ? Prisma.sql`ts_filter(s."searchVector", ${`{${fields.map(f => SEARCH_WEIGHTS[f]).join(",")}}`}::"char"[])`
+    : Prisma.sql`s."searchVector"`
+
+  try {
+    const rows = await prisma.$queryRaw<any[]>`
+      SELECT s."id", s."stepId", s."name", s."input", s."output", s."error", s."reasoning",
+             e."executionId", e."startedAt", e."metadata",
+             ts_rank(${vector}, q) AS "rank"
+      FROM "Step" s
+      JOIN "Execution" e ON e."id" = s."executionId",
+           websearch_to_tsquery('simple', ${query.text}) q
+      WHERE ${vector} @@ q
+        ${organizationId ? Prisma.sql`AND e."organizationId" = ${organizationId}` : Prisma.empty}
+        ${projectId ? Prisma.sql`AND e."projectId" = ${projectId}` : Prisma.empty}
+      ORDER BY "rank" DESC, e."startedAt" DESC, s."position" ASC
+      LIMIT ${limit}
+    `
+
+    const terms = searchTerms(query.text)
+    return rows.map(row => ({
+      executionId: row.executionId,
+      executionStartedAt: row.startedAt.toISOString(),
+      pipeline: row.metadata?.pipeline,
+      stepId: row.stepId || row.id,
+      stepName: row.name,
+      rank: Number(row.rank),
+      matches: fields.flatMap(field => findMatches(field, row[field], terms)),
+    }))
   } catch (error) {
-    console.error(`[Storage] ❌ Failed to update reasoning for ${executionId}/${stepName}:`, error)
+    console.error(`[Storage] ❌ Failed to search steps for "${query.text}":`, error)
     throw error
   }
 }
@@ -1,6 +1,7 @@
 import { Step } from "./step"
 
 export interface Execution {
+  schemaVersion?: number       // Wire format version (see EXECUTION_SCHEMA_VERSION)
   executionId: string
   startedAt: string
   endedAt?: string
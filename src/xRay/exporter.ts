@@ -0,0 +1,113 @@
+// xRay/exporter.ts
+// Background exporter that buffers finished executions and ships them in batches
+// via POST /api/logs/batch
+
+import { Execution } from "./execution"
+import { XRayClientConfig, XRayHttpClient } from "./httpClient"
+import { formatValidationErrors } from "./schema"
+
+export interface XRayExporterConfig extends XRayClientConfig {
+  maxBatchSize?: number        // Flush as soon as this many executions are buffered (default 20)
+  flushIntervalMs?: number     // Flush buffered executions at least this often (default 5s)
+  maxBufferSize?: number       // Oldest executions are dropped beyond this (default 1000)
+  flushOnExit?: boolean        // Flush remaining executions before the process exits (default true)
+}
+
+export class XRayExporter {
+  private client: XRayHttpClient
+  private buffer: Execution[] = []
+  private flushing: Promise<void> | null = null
+  private timer: ReturnType<typeof setInterval>
+  private maxBatchSize: number
+  private maxBufferSize: number
+
+  private onBeforeExit = () => {
+    if (this.buffer.length > 0) {
+      void this.flush()
+    }
+  }
+
+  constructor(config: XRayExporterConfig) {
+    this.client = new XRayHttpClient(config)
+    this.maxBatchSize = config.maxBatchSize ?? 20
+    this.maxBufferSize = config.maxBufferSize ?? 1000
+
+    this.timer = setInterval(() => {
+      if (this.buffer.length > 0) {
+        void this.flush()
+      }
+    }, config.flushIntervalMs ?? 5000)
+    // Don't keep the process alive just for the flush timer
+    this.timer.unref?.()
+
+    // beforeExit fires once the event loop is empty, so async sends can still run
+    if (config.flushOnExit !== false) {
+      process.on('beforeExit', this.onBeforeExit)
+    }
+  }
+
+  /**
+   * Queue a finished execution (the result of xray.end()) for shipping
+   */
+  export(execution: Execution): void {
+    this.buffer.push(execution)
+
+    if (this.buffer.length > this.maxBufferSize) {
+      const dropped = this.buffer.shift()!
+      console.warn(`[XRay] Export buffer full, dropped execution ${dropped.executionId}`)
+    }
+
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush()
+    }
+  }
+
+  /**
+   * Send everything buffered so far. Concurrent calls share the same flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  /**
+   * Stop the flush timer and send whatever is still buffered.
+   * Call this from your own SIGINT/SIGTERM handlers.
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer)
+    process.off('beforeExit', this.onBeforeExit)
+    await this.flush()
+  }
+
+  /** Number of executions waiting to be sent */
+  get pending(): number {
+    return this.buffer.length
+  }
+
+  private async drain(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.maxBatchSize)
+      await this.sendBatch(batch)
+    }
+  }
+
+  private async sendBatch(batch: Execution[]): Promise<void> {
+    try {
+      const { results } = await this.client.sendExecutions(batch)
+
+      for (const result of results) {
+        if (!result.success && !result.spooled) {
+          const reason = result.details ? `${result.error}: ${formatValidationErrors(result.details)}` : result.error
+          console.error(`[XRay] Failed to export execution ${batch[result.index].executionId}: ${reason}`)
+        }
+      }
+    } catch (error: any) {
+      console.error(`[XRay] Failed to export batch of ${batch.length} executions:`, error.message || error)
+    }
+  }
+}
@@ -1,33 +1,310 @@
+import { ExecutionSpool, SpoolDrainResult } from './spool'
+import { ValidationError, formatValidationErrors, validateExecution } from './schema'
+
 export interface XRayClientConfig {
   apiKey: string
   serverUrl: string
+  timeoutMs?: number           // Per-request timeout (default 10s)
+  maxRetries?: number          // Retries on network errors, timeouts, 429 and 5xx (default 3)
+  spoolDir?: string            // Spool undeliverable executions here and replay them later
+  maxSpoolBytes?: number       // Spool size cap (default 50 MB)
+  validate?: boolean           // Validate executions against the schema before sending
+}
+
+/**
+ * Error returned by the X-Ray server (or a failed request).
+ * status is undefined for network errors and timeouts.
+ */
+export class XRayHttpError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number) {
+    super(message)
+    this.name = 'XRayHttpError'
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500
+  }
+}
+
+export interface BatchItemResult {
+  index: number
+  executionId?: string
+  success: boolean
+  error?: string
+  details?: ValidationError[]  // Schema errors for executions rejected as invalid
+  spooled?: boolean
+}
+
+export interface BatchSendResult {
+  success: boolean
+  total: number
+  succeeded: number
+  failed: number
+  results: BatchItemResult[]
 }
 
+/**
+ * Thrown by the client (with validate: true) or returned by the server (400)
+ * when an execution doesn't match the schema. errors has one entry per field.
+ */
+export class XRayValidationError extends Error {
+  constructor(public errors: ValidationError[], message = 'Invalid execution data') {
+    super(`${message}: ${formatValidationErrors(errors)}`)
+    this.name = 'XRayValidationError'
+  }
+}
+
+/** Statuses that mean the server will never accept the execution as sent */
+const UNDELIVERABLE_STATUSES = [400, 413, 422]
+
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_MAX_RETRIES = 3
+const BASE_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 10000
+
 export class XRayHttpClient {
   private config: XRayClientConfig
+  private spool: ExecutionSpool | null
+  private draining: Promise<SpoolDrainResult> | null = null
 
   constructor(config: XRayClientConfig) {
     this.config = config
+    this.spool = config.spoolDir ? new ExecutionSpool(config.spoolDir, config.maxSpoolBytes) : null
   }
 
   /**
    * Send execution to X-Ray server
+   * Retries with jittered exponential backoff on network errors, timeouts, 429 and 5xx.
+   * With spoolDir set, executions that still can't be delivered are spooled
+   * (spooled: true) and replayed after the next successful send.
+   */
+  async sendExecution(execution: any): Promise<{ success: boolean; executionId: string; spooled?: boolean }> {
+    this.validateBeforeSend(execution)
+
+    let result: { success: boolean; executionId: string }
+    try {
+      result = await this.post('/api/logs', execution)
+    } catch (error: any) {
+      if (this.spool && error instanceof XRayHttpError && error.retryable) {
+        if (await this.spool.append(execution)) {
+          console.warn(`[XRay] Server unreachable, spooled execution ${execution.executionId}: ${error.message}`)
+          return { success: false, executionId: execution.executionId, spooled: true }
+        }
+      }
+      throw error
+    }
+
+    this.replaySpool()
+    return result
+  }
+
+  /**
+   * Send many executions in one request (POST /api/logs/batch).
+   * Each execution is validated and saved independently; check results for
+   * per-item errors. With validate: true, invalid executions are reported as
+   * failed results and only the rest are sent. Retries and spooling work as
+   * in sendExecution, for the batch as a whole.
+   */
+  async sendExecutions(executions: any[]): Promise<BatchSendResult> {
+    const results: BatchItemResult[] = []
+    const toSend: { index: number; execution: any }[] = []
+
+    executions.forEach((execution, index) => {
+      const errors = this.validationErrors(execution)
+      if (errors.length > 0) {
+        const executionId = typeof execution?.executionId === 'string' ? execution.executionId : undefined
+        results[index] = { index, executionId, success: false, error: 'Invalid execution data', details: errors }
+      } else {
+        toSend.push({ index, execution })
+      }
+    })
+
+    if (toSend.length > 0) {
+      const sent = await this.postBatch(toSend.map(item => item.execution))
+      // Server results are indexed within the sent executions
+      for (const result of sent.results) {
+        const { index } = toSend[result.index]
+        results[index] = { ...result, index }
+      }
+    }
+
+    const succeeded = results.filter(r => r.success).length
+    return {
+      success: succeeded === results.length,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    }
+  }
+
+  /** POST a batch, spooling it if the server can't be reached */
+  private async postBatch(executions: any[]): Promise<BatchSendResult> {
+    let result: BatchSendResult
+    try {
+      result = await this.post('/api/logs/batch', executions)
+    } catch (error: any) {
+      if (this.spool && error instanceof XRayHttpError && error.retryable) {
+        const spooled = await Promise.all(executions.map(execution => this.spool!.append(execution)))
+        console.warn(`[XRay] Server unreachable, spooled ${spooled.filter(Boolean).length}/${executions.length} executions: ${error.message}`)
+        return {
+          success: false,
+          total: executions.length,
+          succeeded: 0,
+          failed: executions.length,
+          results: executions.map((execution, index) => ({
+            index,
+            executionId: execution.executionId,
+            success: false,
+            spooled: spooled[index],
+            error: spooled[index] ? undefined : error.message
+          }))
+        }
+      }
+      throw error
+    }
+
+    this.replaySpool()
+    return result
+  }
+
+  /**
+   * Replay spooled executions in order, stopping at the first one the server
+   * can't accept yet. Executions rejected as invalid (400, 413, 422) are
+   * dropped; anything else, such as a revoked key (401/403), keeps them all.
+   */
+  async drainSpool(): Promise<SpoolDrainResult> {
+    if (!this.spool) {
+      return { sent: 0, remaining: 0 }
+    }
+
+    if (!this.draining) {
+      this.draining = this.spool.drain(async execution => {
+        try {
+          await this.post('/api/logs', execution)
+        } catch (error: any) {
+          if (error instanceof XRayValidationError || (error instanceof XRayHttpError && UNDELIVERABLE_STATUSES.includes(error.status))) {
+            console.error(`[XRay] Dropping spooled execution ${execution.executionId}: ${error.message}`)
+            return
+          }
+          throw error
+        }
+      }).finally(() => {
+        this.draining = null
+      })
+    }
+
+    return this.draining
+  }
+
+  /**
+   * Open an execution for incremental ingestion (POST /api/logs/stream).
+   * The dashboard shows it as running until closeExecution() is called.
    */
-  async sendExecution(execution: any): Promise<{ success: boolean; executionId: string }> {
-    const response = await fetch(`${this.config.serverUrl}/api/logs`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': this.config.apiKey
-      },
-      body: JSON.stringify(execution)
+  async openExecution(execution: { schemaVersion?: number; executionId: string; startedAt: string; metadata?: Record<string, any> }): Promise<{ success: boolean; executionId: string }> {
+    return this.post('/api/logs/stream', {
+      schemaVersion: execution.schemaVersion,
+      executionId: execution.executionId,
+      startedAt: execution.startedAt,
+      metadata: execution.metadata
     })
+  }
+
+  /**
+   * Append finished steps to an open execution
+   */
+  async appendSteps(executionId: string, steps: any[]): Promise<{ success: boolean; executionId: string; appended: number }> {
+    return this.post(`/api/logs/stream/${encodeURIComponent(executionId)}/steps`, { steps })
+  }
+
+  /**
+   * Mark an open execution as finished
+   */
+  async closeExecution(executionId: string, result: { endedAt?: string; finalOutcome?: any }): Promise<{ success: boolean; executionId: string }> {
+    return this.post(`/api/logs/stream/${encodeURIComponent(executionId)}/end`, result)
+  }
+
+  private validateBeforeSend(execution: any) {
+    const errors = this.validationErrors(execution)
+    if (errors.length > 0) {
+      throw new XRayValidationError(errors, `Invalid execution ${execution?.executionId ?? ''}`.trim())
+    }
+  }
+
+  /** Schema errors for an execution (none unless validate is set) */
+  private validationErrors(execution: any): ValidationError[] {
+    if (!this.config.validate) return []
+    return validateExecution(execution).errors
+  }
+
+  /** Server is reachable again - replay anything spooled earlier, in the background */
+  private replaySpool() {
+    if (!this.spool) return
+
+    this.drainSpool().catch(error => {
+      console.error('[XRay] Failed to replay spooled executions:', error)
+    })
+  }
+
+  private async post(path: string, body: any): Promise<any> {
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.postOnce(path, body)
+      } catch (error: any) {
+        if (!(error instanceof XRayHttpError) || !error.retryable || attempt >= maxRetries) {
+          throw error
+        }
+        await sleep(error.retryAfterMs ?? retryDelay(attempt))
+      }
+    }
+  }
+
+  private async postOnce(path: string, body: any): Promise<any> {
+    let response: Response
+    try {
+      response = await fetch(`${this.config.serverUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': this.config.apiKey
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      })
+    } catch (error: any) {
+      // Network failure or timeout (AbortSignal.timeout rejects with a TimeoutError)
+      throw new XRayHttpError(error.message || 'Request failed')
+    }
 
     if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.error || 'Failed to send execution')
+      const error = await response.json().catch(() => ({}))
+      if (response.status === 400 && Array.isArray(error.details)) {
+        throw new XRayValidationError(error.details, error.error)
+      }
+      throw new XRayHttpError(
+        error.error || 'Failed to send execution',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      )
     }
 
     return response.json()
   }
 }
+
+/** Full-jitter exponential backoff: random delay in [0, min(cap, base * 2^attempt)] */
+function retryDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt)
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  return Number.isFinite(seconds) ? Math.min(seconds * 1000, MAX_RETRY_DELAY_MS) : undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
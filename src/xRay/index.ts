@@ -1,5 +1,11 @@
 export { XRay } from "./xray"
+export type { StepOptions, XRayOptions } from "./xray"
+export { traced, traceStep, setActiveXRay, getActiveXRay } from "./trace"
 export type { Execution } from "./execution"
 export type { Step } from "./step"
-export { XRayHttpClient } from "./httpClient"
-export type { XRayClientConfig } from "./httpClient"
+export { XRayHttpClient, XRayHttpError, XRayValidationError } from "./httpClient"
+export type { XRayClientConfig, BatchSendResult, BatchItemResult } from "./httpClient"
+export { XRayExporter } from "./exporter"
+export type { XRayExporterConfig } from "./exporter"
+export { EXECUTION_SCHEMA_VERSION, validateExecution, validateStep, formatValidationErrors } from "./schema"
+export type { ValidationError, ValidationResult, ValidateExecutionOptions } from "./schema"
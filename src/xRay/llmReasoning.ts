@@ -2,12 +2,12 @@
 import { openaiExplainStep } from "@/lib/openaiReasoner"
 import { Step } from "./step"
 
-export async function generateStepReasoning(step: Step): Promise<string> {
+export async function generateStepReasoning(step: Step, pipeline?: string): Promise<string> {
   if (step.error) {
     return `❌ ${step.name} failed: ${step.error}`
   }
 
   // LLM-powered reasoning (works for ANY pipeline)
   // Always uses server's OpenAI key for security
-  return await openaiExplainStep(step)
+  return await openaiExplainStep(step, pipeline)
 }
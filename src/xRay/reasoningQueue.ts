@@ -11,7 +11,8 @@ import { randomUUID } from 'crypto'
 export interface ReasoningJob {
   id: string                    // Unique job ID
   executionId: string           // Execution to update
-  stepName: string              // Step to generate reasoning for
+  stepId?: string               // Step to generate reasoning for (unset for legacy jobs)
+  stepName: string              // Step name (for logging, and lookup of legacy jobs)
   attempt: number               // Current retry attempt (1-based)
   status: 'pending' | 'processing' | 'completed' | 'failed'
   createdAt: string            // ISO timestamp
@@ -80,6 +81,7 @@ export class ReasoningQueue {
           const job: ReasoningJob = {
             id: dbJob.id,
             executionId: dbJob.executionId,
+            stepId: dbJob.stepId ?? undefined,
             stepName: dbJob.stepName,
             attempt: dbJob.attempts,
             status: 'pending',
@@ -103,12 +105,13 @@ export class ReasoningQueue {
    * Enqueue a single step for reasoning generation
    * Returns jobId for tracking
    */
-  async enqueue(executionId: string, stepName: string): Promise<string> {
+  async enqueue(executionId: string, stepId: string, stepName: string): Promise<string> {
     const jobId = randomUUID()
 
     const job: ReasoningJob = {
       id: jobId,
       executionId,
+      stepId,
       stepName,
       attempt: 1,
       status: 'pending',
@@ -130,6 +133,7 @@ export class ReasoningQueue {
           data: {
             id: jobId,
             executionId: execution.id, // Use internal ID, not user-facing executionId
+            stepId,
             stepName,
             status: 'pending',
             attempts: 1
@@ -164,7 +168,7 @@ export class ReasoningQueue {
     for (const step of execution.steps) {
       // Only enqueue steps without reasoning
       if (!step.reasoning) {
-        const jobId = await this.enqueue(executionId, step.name)
+        const jobId = await this.enqueue(executionId, step.id!, step.name)
         jobIds.push(jobId)
       }
     }
@@ -210,10 +214,12 @@ export class ReasoningQueue {
       }
       console.log(`[XRay] ✓ Loaded execution with ${execution.steps.length} steps`)
 
-      // Find the step
-      const step = execution.steps.find((s: any) => s.name === job.stepName)
+      // Find the step (jobs persisted before step IDs existed only know the name)
+      const step = job.stepId
+        ? execution.steps.find((s: any) => s.id === job.stepId)
+        : execution.steps.find((s: any) => s.name === job.stepName)
       if (!step) {
-        throw new Error(`Step ${job.stepName} not found in execution ${job.executionId}`)
+        throw new Error(`Step ${job.stepId ?? job.stepName} not found in execution ${job.executionId}`)
       }
       console.log(`[XRay] ✓ Found step: ${job.stepName}`)
 
@@ -228,13 +234,13 @@ export class ReasoningQueue {
       // Generate reasoning (this is the LLM call)
       console.log(`[XRay] Calling LLM for ${job.stepName}...`)
       console.log(`[XRay] Using server's OpenAI key for reasoning generation`)
-      const reasoning = await generateStepReasoning(step)
+      const reasoning = await generateStepReasoning(step, execution.metadata?.pipeline)
       console.log(`[XRay] ✓ LLM returned reasoning (${reasoning.length} chars): "${reasoning.substring(0, 100)}..."`)
 
       // ATOMIC UPDATE: Use new function that locks load-modify-write cycle
       // This prevents race conditions when multiple jobs update different steps
       console.log(`[XRay] Atomically updating reasoning in storage...`)
-      await updateStepReasoning(job.executionId, job.stepName, reasoning)
+      await updateStepReasoning(job.executionId, step.id!, reasoning)
       console.log(`[XRay] ✓ Reasoning saved to storage`)
 
       // Mark job as completed
@@ -0,0 +1,274 @@
+// xRay/schema.ts
+// Versioned schema for executions and steps, shared by the SDK and the ingestion routes
+
+/**
+ * Version of the Execution/Step wire format. Bump when the shape changes
+ * incompatibly; the server rejects executions from newer versions.
+ */
+export const EXECUTION_SCHEMA_VERSION = 1
+
+export interface ValidationError {
+  path: string                 // e.g. "steps[2].name"
+  message: string
+}
+
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationError[]
+}
+
+export interface ValidateExecutionOptions {
+  requireSteps?: boolean       // Require at least one step (default true)
+}
+
+const MAX_JSON_DEPTH = 64
+const MAX_INT = 2147483647     // durationMs is a 32-bit integer column
+const NUL_MESSAGE = "must not contain NUL (\\u0000) characters" // Postgres rejects them in text and JSON
+
+/**
+ * Validate an execution against the schema. Collects every error rather
+ * than stopping at the first one.
+ */
+export function validateExecution(value: any, options: ValidateExecutionOptions = {}): ValidationResult {
+  const errors: ValidationError[] = []
+
+  if (!isPlainObject(value)) {
+    errors.push({ path: "", message: "must be an object" })
+    return { valid: false, errors }
+  }
+
+  if (value.schemaVersion !== undefined) {
+    if (!Number.isInteger(value.schemaVersion) || value.schemaVersion < 1) {
+      errors.push({ path: "schemaVersion", message: "must be a positive integer" })
+    } else if (value.schemaVersion > EXECUTION_SCHEMA_VERSION) {
+      errors.push({ path: "schemaVersion", message: `unsupported version ${value.schemaVersion} (max ${EXECUTION_SCHEMA_VERSION})` })
+    }
+  }
+
+  checkNonEmptyString(value.executionId, "executionId", errors, true)
+  checkTimestamp(value.startedAt, "startedAt", errors, true)
+  checkTimestamp(value.endedAt, "endedAt", errors)
+  checkRecord(value.metadata, "metadata", errors)
+  checkSerializable(value.finalOutcome, "finalOutcome", errors)
+
+  if (!Array.isArray(value.steps)) {
+    errors.push({ path: "steps", message: "must be an array" })
+  } else {
+    if (value.steps.length === 0 && options.requireSteps !== false) {
+      errors.push({ path: "steps", message: "must contain at least one step" })
+    }
+    value.steps.forEach((step: any, i: number) => {
+      errors.push(...validateStep(step, `steps[${i}]`).errors)
+    })
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate a single step. path prefixes error paths (e.g. "steps[0]").
+ */
+export function validateStep(value: any, path = ""): ValidationResult {
+  const errors: ValidationError[] = []
+  const at = (field: string) => (path ? `${path}.${field}` : field)
+
+  if (!isPlainObject(value)) {
+    errors.push({ path, message: "must be an object" })
+    return { valid: false, errors }
+  }
+
+  checkNonEmptyString(value.name, at("name"), errors, true)
+  checkNonEmptyString(value.id, at("id"), errors)
+  checkNonEmptyString(value.parentId, at("parentId"), errors)
+  checkTimestamp(value.timestamp, at("timestamp"), errors)
+  checkTimestamp(value.startedAt, at("startedAt"), errors)
+  checkTimestamp(value.endedAt, at("endedAt"), errors)
+  checkSerializable(value.input, at("input"), errors)
+  checkSerializable(value.output, at("output"), errors)
+  checkRecord(value.metadata, at("metadata"), errors)
+
+  checkString(value.error, at("error"), errors)
+  checkString(value.reasoning, at("reasoning"), errors)
+  if (value.durationMs !== undefined && value.durationMs !== null &&
+      (!Number.isInteger(value.durationMs) || value.durationMs < 0 || value.durationMs > MAX_INT)) {
+    errors.push({ path: at("durationMs"), message: "must be a non-negative integer" })
+  }
+
+  if (value.evaluations !== undefined) {
+    if (!Array.isArray(value.evaluations)) {
+      errors.push({ path: at("evaluations"), message: "must be an array" })
+    } else {
+      value.evaluations.forEach((evaluation: any, i: number) => {
+        checkEvaluation(evaluation, at(`evaluations[${i}]`), errors)
+      })
+    }
+  }
+
+  if (value.filters_applied !== undefined) {
+    if (!isPlainObject(value.filters_applied)) {
+      errors.push({ path: at("filters_applied"), message: "must be an object" })
+    } else {
+      for (const [filter, applied] of Object.entries<any>(value.filters_applied)) {
+        const filterPath = at(`filters_applied.${filter}`)
+        if (hasNul(filter)) {
+          errors.push({ path: filterPath, message: `name ${NUL_MESSAGE}` })
+          continue
+        }
+        if (!isPlainObject(applied)) {
+          errors.push({ path: filterPath, message: "must be an object" })
+          continue
+        }
+        checkNonEmptyString(applied.rule, `${filterPath}.rule`, errors, true)
+        checkSerializable(applied.value, `${filterPath}.value`, errors)
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/** Human-readable one-line summary, e.g. for exception messages */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join("; ")
+}
+
+function checkEvaluation(value: any, path: string, errors: ValidationError[]) {
+  if (!isPlainObject(value)) {
+    errors.push({ path, message: "must be an object" })
+    return
+  }
+
+  checkNonEmptyString(value.id, `${path}.id`, errors, true)
+  if (value.passed !== undefined && typeof value.passed !== "boolean") {
+    errors.push({ path: `${path}.passed`, message: "must be a boolean" })
+  }
+  checkString(value.reasoning, `${path}.reasoning`, errors)
+  checkRecord(value.metrics, `${path}.metrics`, errors)
+
+  if (value.filter_results !== undefined) {
+    if (!isPlainObject(value.filter_results)) {
+      errors.push({ path: `${path}.filter_results`, message: "must be an object" })
+      return
+    }
+    for (const [filter, result] of Object.entries<any>(value.filter_results)) {
+      const resultPath = `${path}.filter_results.${filter}`
+      if (hasNul(filter)) {
+        errors.push({ path: resultPath, message: `name ${NUL_MESSAGE}` })
+      } else if (!isPlainObject(result)) {
+        errors.push({ path: resultPath, message: "must be an object" })
+      } else if (typeof result.passed !== "boolean") {
+        errors.push({ path: `${resultPath}.passed`, message: "must be a boolean" })
+      } else {
+        checkString(result.detail, `${resultPath}.detail`, errors)
+      }
+    }
+  }
+}
+
+function checkNonEmptyString(value: any, path: string, errors: ValidationError[], required = false) {
+  if (value === undefined || value === null) {
+    if (required) errors.push({ path, message: "is required" })
+    return
+  }
+  if (typeof value !== "string" || value.trim().length === 0) {
+    errors.push({ path, message: "must be a non-empty string" })
+  } else if (hasNul(value)) {
+    errors.push({ path, message: NUL_MESSAGE })
+  }
+}
+
+/** An optional string (null or undefined allowed) */
+function checkString(value: any, path: string, errors: ValidationError[]) {
+  if (value === undefined || value === null) return
+  if (typeof value !== "string") {
+    errors.push({ path, message: "must be a string" })
+  } else if (hasNul(value)) {
+    errors.push({ path, message: NUL_MESSAGE })
+  }
+}
+
+function checkTimestamp(value: any, path: string, errors: ValidationError[], required = false) {
+  if (value === undefined || value === null) {
+    if (required) errors.push({ path, message: "is required" })
+    return
+  }
+  if (typeof value !== "string" || isNaN(new Date(value).getTime())) {
+    errors.push({ path, message: "must be an ISO 8601 timestamp" })
+  }
+}
+
+function checkRecord(value: any, path: string, errors: ValidationError[]) {
+  if (value === undefined || value === null) return
+  if (!isPlainObject(value)) {
+    errors.push({ path, message: "must be an object" })
+    return
+  }
+  checkSerializable(value, path, errors)
+}
+
+/**
+ * Ensure a value survives JSON round-tripping unchanged: no functions,
+ * symbols, bigints, non-finite numbers or circular references. Strings and
+ * keys must also be storable in Postgres JSON, so they can't contain NUL.
+ */
+function checkSerializable(value: any, path: string, errors: ValidationError[]) {
+  const ancestors = new Set<any>()
+
+  const visit = (current: any, currentPath: string, depth: number): boolean => {
+    switch (typeof current) {
+      case "undefined":
+      case "boolean":
+        return true
+      case "string":
+        if (!hasNul(current)) return true
+        errors.push({ path: currentPath, message: NUL_MESSAGE })
+        return false
+      case "number":
+        if (Number.isFinite(current)) return true
+        errors.push({ path: currentPath, message: "must be a finite number" })
+        return false
+      case "object":
+        break
+      default:
+        errors.push({ path: currentPath, message: `is not JSON-serializable (${typeof current})` })
+        return false
+    }
+
+    if (current === null || current instanceof Date) return true
+
+    if (depth > MAX_JSON_DEPTH) {
+      errors.push({ path: currentPath, message: `nesting exceeds ${MAX_JSON_DEPTH} levels` })
+      return false
+    }
+    if (ancestors.has(current)) {
+      errors.push({ path: currentPath, message: "contains a circular reference" })
+      return false
+    }
+
+    const badKey = Array.isArray(current) ? undefined : Object.keys(current).find(hasNul)
+    if (badKey !== undefined) {
+      errors.push({ path: `${currentPath}.${badKey}`, message: `key ${NUL_MESSAGE}` })
+      return false
+    }
+
+    ancestors.add(current)
+    const entries: [string, any][] = Array.isArray(current)
+      ? current.map((item, i) => [`[${i}]`, item])
+      : Object.entries(current).map(([key, item]) => [`.${key}`, item])
+
+    // Report only the first problem inside a value to keep error lists short
+    const ok = entries.every(([suffix, item]) => visit(item, `${currentPath}${suffix}`, depth + 1))
+    ancestors.delete(current)
+    return ok
+  }
+
+  visit(value, path, 0)
+}
+
+function hasNul(value: string): boolean {
+  return value.includes("\u0000")
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,118 @@
+// xRay/spool.ts
+// File-backed NDJSON spool for executions that could not be delivered
+
+import { appendFile, mkdir, readFile, rename, stat, unlink, writeFile } from "fs/promises"
+import path from "path"
+
+const SPOOL_FILE = "executions.ndjson"
+const DEFAULT_MAX_SPOOL_BYTES = 50 * 1024 * 1024 // 50 MB
+
+export interface SpoolDrainResult {
+  sent: number                 // Entries delivered (or dropped as undeliverable)
+  remaining: number            // Entries still spooled
+}
+
+/**
+ * Append-only spool, one execution per line, replayed oldest first.
+ * Operations are serialized within the process; only one process should
+ * drain a given directory at a time.
+ */
+export class ExecutionSpool {
+  private file: string
+  private lock: Promise<unknown> = Promise.resolve()
+
+  constructor(private dir: string, private maxBytes = DEFAULT_MAX_SPOOL_BYTES) {
+    this.file = path.join(dir, SPOOL_FILE)
+  }
+
+  /**
+   * Spool an execution. Returns false (and keeps the spool unchanged)
+   * if it would grow past maxBytes.
+   */
+  append(execution: any): Promise<boolean> {
+    return this.withLock(async () => {
+      await mkdir(this.dir, { recursive: true })
+
+      const line = JSON.stringify(execution) + "\n"
+      if ((await this.size()) + Buffer.byteLength(line) > this.maxBytes) {
+        console.warn(`[XRay] Spool ${this.file} is full, dropping execution ${execution?.executionId}`)
+        return false
+      }
+
+      await appendFile(this.file, line)
+      return true
+    })
+  }
+
+  /**
+   * Replay spooled executions in order through send(). Stops at the first
+   * send() that throws and keeps that entry and everything after it.
+   */
+  drain(send: (execution: any) => Promise<void>): Promise<SpoolDrainResult> {
+    return this.withLock(async () => {
+      const lines = await this.readLines()
+      let sent = 0
+
+      for (; sent < lines.length; sent++) {
+        let execution: any
+        try {
+          execution = JSON.parse(lines[sent])
+        } catch {
+          console.warn(`[XRay] Skipping corrupt spool entry in ${this.file}`)
+          continue
+        }
+
+        try {
+          await send(execution)
+        } catch {
+          break
+        }
+      }
+
+      const remaining = lines.slice(sent)
+      await this.rewrite(remaining)
+      return { sent, remaining: remaining.length }
+    })
+  }
+
+  /** Number of spooled executions */
+  count(): Promise<number> {
+    return this.withLock(async () => (await this.readLines()).length)
+  }
+
+  private async readLines(): Promise<string[]> {
+    try {
+      const content = await readFile(this.file, "utf-8")
+      return content.split("\n").filter(line => line.trim().length > 0)
+    } catch (error: any) {
+      if (error.code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  private async rewrite(lines: string[]): Promise<void> {
+    if (lines.length === 0) {
+      await unlink(this.file).catch(() => {})
+      return
+    }
+
+    // Write to a temp file first so a crash mid-write can't truncate the spool
+    const tmp = `${this.file}.tmp`
+    await writeFile(tmp, lines.map(line => line + "\n").join(""))
+    await rename(tmp, this.file)
+  }
+
+  private async size(): Promise<number> {
+    try {
+      return (await stat(this.file)).size
+    } catch {
+      return 0
+    }
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn)
+    this.lock = run.catch(() => {})
+    return run
+  }
+}
@@ -1,4 +1,6 @@
 export interface Step {
+  id?: string                  // Unique step ID (generated by startStep)
+  parentId?: string            // ID of the enclosing step, for sub-steps
   name: string
   input: any
   output?: any
@@ -0,0 +1,59 @@
+// xRay/trace.ts
+// Decorator and function wrapper that record calls as steps on the ambient XRay instance
+
+import { XRay } from "./xray"
+
+let activeXRay: XRay | null = null
+
+/**
+ * Set a process-wide fallback XRay instance for traced functions and
+ * @traceStep methods, used outside of XRay.run(). Pass null when the
+ * execution ends; traced code then runs untraced.
+ */
+export function setActiveXRay(xray: XRay | null) {
+  activeXRay = xray
+}
+
+/** The XRay of the enclosing XRay.run(), else the one set via setActiveXRay() */
+export function getActiveXRay(): XRay | null {
+  return XRay.current() ?? activeXRay
+}
+
+/**
+ * Wrap a function so every call is recorded as a step:
+ * arguments become the input, the return value (or resolved value) the output,
+ * and throws/rejections are recorded as step errors and re-thrown.
+ */
+export function traced<A extends any[], R>(fn: (...args: A) => R, name?: string): (...args: A) => R {
+  const stepName = name || fn.name || "anonymous"
+
+  return function (this: any, ...args: A): R {
+    const xray = getActiveXRay()
+    if (!xray) {
+      return fn.apply(this, args)
+    }
+    return xray.step(stepName, { args }, () => fn.apply(this, args))
+  }
+}
+
+/**
+ * Method decorator version of traced(). Step name defaults to the method name.
+ * Supports both TC39 decorators and TypeScript's experimentalDecorators.
+ *
+ *   class CandidateService {
+ *     @traceStep()
+ *     async search(keyword: string) { ... }
+ *   }
+ */
+export function traceStep(name?: string) {
+  return function (target: any, context: any, descriptor?: PropertyDescriptor): any {
+    // experimentalDecorators: (prototype, propertyKey, descriptor)
+    if (descriptor) {
+      descriptor.value = traced(descriptor.value, name || String(context))
+      return descriptor
+    }
+
+    // TC39 decorators: (method, context)
+    return traced(target, name || String(context.name))
+  }
+}
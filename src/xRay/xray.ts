@@ -1,19 +1,66 @@
 import { Execution } from "./execution"
 import { Step } from "./step"
 import { ReasoningQueue } from "./reasoningQueue"
+import { randomUUID } from "crypto"
+import { AsyncLocalStorage } from "async_hooks"
+import type { XRayHttpClient } from "./httpClient"
+import { EXECUTION_SCHEMA_VERSION, ValidationResult, validateExecution } from "./schema"
+
+export interface StepOptions {
+  parent?: string                  // Step ID (or name) to nest this step under
+  metadata?: Record<string, any>
+}
+
+export interface XRayOptions {
+  stream?: XRayHttpClient          // Send each step to the server as soon as it finishes
+}
+
+interface XRayContext {
+  xray: XRay
+  stepId?: string                  // Step currently running via step(), if any
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
 
 export class XRay {
+  private static context = new AsyncLocalStorage<XRayContext>()
+
   private execution: Execution
-  private activeSteps = new Map<string, Step>()
-  private pendingReasoningSteps: string[] = []
+  private activeSteps = new Map<string, Step>()   // keyed by step ID
+  private pendingReasoningSteps: Step[] = []
+  private streamClient: XRayHttpClient | null
+  private streamQueue: Promise<void> = Promise.resolve()
 
-  constructor(executionId: string, metadata?: Record<string, any>) {
+  constructor(executionId: string, metadata?: Record<string, any>, options?: XRayOptions) {
     this.execution = {
+      schemaVersion: EXECUTION_SCHEMA_VERSION,
       executionId,
       startedAt: new Date().toISOString(),
       steps: [],
       metadata
     }
+
+    // Streaming: open the execution now so it shows as running on the dashboard
+    this.streamClient = options?.stream ?? null
+    this.enqueueStream(client => client.openExecution(this.execution))
+  }
+
+  /**
+   * Run fn with a new XRay as the ambient execution, so helpers anywhere
+   * below it can log steps via XRay.current() without the instance being
+   * passed around. Concurrent runs each see their own instance.
+   * Returns fn's result; call xray.end() inside fn to finish the execution.
+   */
+  static run<T>(executionId: string, metadata: Record<string, any> | undefined, fn: (xray: XRay) => T, options?: XRayOptions): T {
+    const xray = new XRay(executionId, metadata, options)
+    return XRay.context.run({ xray }, () => fn(xray))
+  }
+
+  /** The XRay instance of the enclosing XRay.run(), or null outside of one */
+  static current(): XRay | null {
+    return XRay.context.getStore()?.xray ?? null
   }
 
   /** BACKWARD-COMPATIBLE (v1) – no auto reasoning */
@@ -23,55 +70,129 @@ export class XRay {
     output: any
     metadata?: Record<string, any>
   }) {
-    this.execution.steps.push({
+    const logged: Step = {
+      id: randomUUID(),
       name: step.name,
       input: step.input,
       output: step.output,
       timestamp: new Date().toISOString(),
       metadata: step.metadata
       // reasoning can be added manually via metadata.reasoning if needed
-    })
+    }
+    this.execution.steps.push(logged)
+    this.enqueueStream(client => client.appendSteps(this.execution.executionId, [logged]))
   }
 
-  /** Start a step (v2) */
-  startStep(name: string, input: any, metadata?: Record<string, any>, ) {
+  /**
+   * Start a step (v2) – returns the step ID.
+   * Pass the ID to endStep/errorStep so repeated runs of the same step name
+   * (e.g. apply_filters once per keyword) stay distinct.
+   */
+  startStep(name: string, input: any, metadata?: Record<string, any>, ): string {
     const step: Step = {
+      id: randomUUID(),
       name,
       input,
       timestamp: new Date().toISOString(),
       startedAt: new Date().toISOString(),
       metadata
     }
-    this.activeSteps.set(name, step)
+    this.activeSteps.set(step.id!, step)
+    return step.id!
+  }
+
+  /** Start a sub-step nested inside an active step (e.g. per-candidate LLM calls) */
+  startSubStep(parent: string, name: string, input: any, metadata?: Record<string, any>): string {
+    const parentStep = this.findActiveStep(parent)
+    if (!parentStep) {
+      throw new Error(`Parent step ${parent} is not active`)
+    }
+
+    const stepId = this.startStep(name, input, metadata)
+    this.activeSteps.get(stepId)!.parentId = parentStep.id
+    return stepId
   }
 
   /** Finish a step (v3) – stores without reasoning (populated asynchronously) */
-  endStep(name: string, output: any) {
-    const step = this.activeSteps.get(name)
-    if (!step) return
+  endStep(step: string, output: any) {
+    const active = this.findActiveStep(step)
+    if (!active) return
 
-    step.output = output
-    step.endedAt = new Date().toISOString()
-    step.durationMs =
-      new Date(step.endedAt).getTime() -
-      new Date(step.startedAt!).getTime()
+    active.output = output
+    this.finishStep(active)
+  }
 
-    // Store without reasoning (will be populated asynchronously)
-    step.reasoning = undefined
+  /** Capture error inside a step (v2) – stores without reasoning (populated asynchronously) */
+  errorStep(step: string, error: Error) {
+    const active = this.findActiveStep(step)
+    if (!active) return
 
-    this.execution.steps.push(step)
-    this.activeSteps.delete(name)
+    active.error = error.message
+    this.finishStep(active)
+  }
 
-    // Track step for later processing
-    this.pendingReasoningSteps.push(step.name)
+  /**
+   * Run fn as a step: its return value becomes the step output, and a throw
+   * is recorded via errorStep and re-thrown. Works with sync and async
+   * functions. Steps started inside fn via step() are nested under it
+   * automatically; fn also receives the step ID for explicit { parent }.
+   */
+  step<T>(name: string, input: any, fn: (stepId: string) => Promise<T>, options?: StepOptions): Promise<T>
+  step<T>(name: string, input: any, fn: (stepId: string) => T, options?: StepOptions): T
+  step<T>(name: string, input: any, fn: (stepId: string) => T | Promise<T>, options?: StepOptions): T | Promise<T> {
+    const parent = options?.parent ?? this.ambientParentStep()
+    const stepId = parent
+      ? this.startSubStep(parent, name, input, options?.metadata)
+      : this.startStep(name, input, options?.metadata)
+
+    let result: T | Promise<T>
+    try {
+      result = XRay.context.run({ xray: this, stepId }, () => fn(stepId))
+    } catch (error) {
+      this.errorStep(stepId, toError(error))
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        output => {
+          this.endStep(stepId, output)
+          return output
+        },
+        error => {
+          this.errorStep(stepId, toError(error))
+          throw error
+        }
+      )
+    }
+
+    this.endStep(stepId, result)
+    return result
   }
 
-  /** Capture error inside a step (v2) – stores without reasoning (populated asynchronously) */
-  errorStep(name: string, error: Error) {
-    const step = this.activeSteps.get(name)
-    if (!step) return
+  /** Step running in the current async context, if it belongs to this instance and is still open */
+  private ambientParentStep(): string | undefined {
+    const context = XRay.context.getStore()
+    if (context?.xray !== this || !context.stepId) return undefined
+    return this.activeSteps.has(context.stepId) ? context.stepId : undefined
+  }
 
-    step.error = error.message
+  /**
+   * Look up an active step by ID, falling back to the most recently started
+   * step with that name (for callers that still address steps by name)
+   */
+  private findActiveStep(stepIdOrName: string): Step | undefined {
+    const byId = this.activeSteps.get(stepIdOrName)
+    if (byId) return byId
+
+    let latest: Step | undefined
+    for (const step of this.activeSteps.values()) {
+      if (step.name === stepIdOrName) latest = step
+    }
+    return latest
+  }
+
+  private finishStep(step: Step) {
     step.endedAt = new Date().toISOString()
     step.durationMs =
       new Date(step.endedAt).getTime() -
@@ -81,25 +202,56 @@ export class XRay {
     step.reasoning = undefined
 
     this.execution.steps.push(step)
-    this.activeSteps.delete(name)
+    this.activeSteps.delete(step.id!)
 
     // Track step for later processing
-    this.pendingReasoningSteps.push(step.name)
+    this.pendingReasoningSteps.push(step)
+
+    this.enqueueStream(client => client.appendSteps(this.execution.executionId, [step]))
+  }
+
+  /**
+   * Queue a streaming request. Requests are sent one at a time, in order;
+   * failures are logged rather than thrown so tracing never breaks the pipeline.
+   */
+  private enqueueStream(send: (client: XRayHttpClient) => Promise<unknown>) {
+    const client = this.streamClient
+    if (!client) return
+
+    this.streamQueue = this.streamQueue
+      .then(() => send(client))
+      .then(() => {}, error => {
+        console.error(`[XRay] Failed to stream execution ${this.execution.executionId}:`, error?.message || error)
+      })
   }
 
   /** End execution - returns execution without enqueueing reasoning */
   end(finalOutcome: any) {
     this.execution.endedAt = new Date().toISOString()
     this.execution.finalOutcome = finalOutcome
+    this.enqueueStream(client => client.closeExecution(this.execution.executionId, {
+      endedAt: this.execution.endedAt,
+      finalOutcome
+    }))
     return this.execution
   }
 
+  /** Check the execution recorded so far against the ingestion schema */
+  validate(): ValidationResult {
+    return validateExecution(this.execution, { requireSteps: false })
+  }
+
+  /** Wait until every streamed update has been sent (no-op without streaming) */
+  flush(): Promise<void> {
+    return this.streamQueue
+  }
+
   /** Enqueue reasoning jobs - call AFTER saveExecution() */
   async enqueueReasoning() {
     if (process.env.XRAY_AUTO_REASONING === 'true') {
       const queue = ReasoningQueue.getInstance()
-      for (const stepName of this.pendingReasoningSteps) {
-        await queue.enqueue(this.execution.executionId, stepName)
+      for (const step of this.pendingReasoningSteps) {
+        await queue.enqueue(this.execution.executionId, step.id!, step.name)
       }
     }
   }